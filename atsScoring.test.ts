@@ -0,0 +1,134 @@
+import { describe, expect, it } from "vitest";
+import { checkResumeFormatting, detectResumeSections, extractJobKeywords, scoreResumeLocally } from "./atsScoring";
+
+const RESUME = `Jane Doe
+jane.doe@example.com | (555) 123-4567 | Seattle, WA
+
+Summary
+Backend engineer who builds reliable payment systems in Go and PostgreSQL.
+
+Experience
+Senior Software Engineer | Acme Payments | Jan 2020 - Present
+- Led the migration of the billing service to Kubernetes, cutting deploy time by 60%
+- Designed a PostgreSQL sharding scheme that handles 3x the previous load
+- Mentored four engineers on Go and distributed systems
+
+Software Engineer | Globex | 2017 - 2019
+- Built REST APIs in Go serving 2M requests a day
+
+Education
+University of Washington
+B.S. Computer Science, 2017
+
+Skills
+Go, PostgreSQL, Kubernetes, AWS, Terraform`;
+
+const JOB = `Senior Backend Engineer
+We are looking for a backend engineer to build our payments platform.
+Requirements: Go, PostgreSQL and Kubernetes experience.
+You will design distributed systems and own our payments platform end to end.
+Nice to have: Kafka.`;
+
+const check = (text: string, label: string) => checkResumeFormatting(text).find(c => c.label === label)!;
+
+describe("detectResumeSections", () => {
+  it("finds standard headings, with or without a trailing colon", () => {
+    const sections = detectResumeSections("jane@example.com\nSUMMARY:\nHello\nWork Experience\nEducation\nTechnical Skills");
+    expect(sections.every(s => s.found)).toBe(true);
+  });
+
+  it("reports missing sections", () => {
+    const sections = detectResumeSections("Jane Doe\nExperience\n- Did things");
+    expect(sections.filter(s => !s.found).map(s => s.name)).toEqual(["Contact", "Summary", "Education", "Skills"]);
+  });
+
+  it("does not treat a long sentence that mentions a heading as a heading", () => {
+    const sections = detectResumeSections("My education was mostly self-directed through online courses and side projects");
+    expect(sections.find(s => s.name === "Education")?.found).toBe(false);
+  });
+});
+
+describe("extractJobKeywords", () => {
+  it("weights terms on requirement lines above terms mentioned as often elsewhere", () => {
+    const keywords = extractJobKeywords(JOB);
+    const weight = (term: string) => keywords.find(k => k.term === term)?.weight;
+    expect(weight("postgresql")).toBe(1.5);
+    expect(weight("kafka")).toBe(1);
+  });
+
+  it("drops filler words", () => {
+    const terms = extractJobKeywords(JOB).map(k => k.term);
+    expect(terms).not.toContain("looking");
+    expect(terms).not.toContain("experience");
+  });
+
+  it("keeps two-word phrases only when they repeat", () => {
+    const terms = extractJobKeywords(JOB).map(k => k.term);
+    expect(terms).toContain("payment platform");
+    expect(terms).not.toContain("nice to");
+    expect(terms).not.toContain("distributed system");
+  });
+});
+
+describe("scoreResumeLocally", () => {
+  it("matches keywords regardless of case and plural form", () => {
+    const { keywords } = scoreResumeLocally("Kubernetes cluster", "Must know kubernetes clusters");
+    expect(keywords.find(k => k.term === "cluster")?.matched).toBe(true);
+    expect(keywords.find(k => k.term === "kubernete")?.matched).toBe(true);
+  });
+
+  it("is deterministic", () => {
+    expect(scoreResumeLocally(RESUME, JOB)).toEqual(scoreResumeLocally(RESUME, JOB));
+  });
+
+  it("scores a tailored resume above an unrelated one", () => {
+    const unrelated = RESUME.replace(/Go|PostgreSQL|Kubernetes|payment|distributed/gi, "Photoshop");
+    expect(scoreResumeLocally(RESUME, JOB).keywordScore).toBeGreaterThan(scoreResumeLocally(unrelated, JOB).keywordScore);
+  });
+
+  it("weights keywords, sections and formatting into the overall score", () => {
+    const result = scoreResumeLocally(RESUME, JOB);
+    expect(result.score).toBe(Math.round(result.keywordScore * 0.6 + result.sectionScore * 0.2 + result.formattingScore * 0.2));
+    expect(result.sectionScore).toBe(100);
+  });
+
+  it("scores keywords as zero when the job description has none", () => {
+    expect(scoreResumeLocally(RESUME, "").keywordScore).toBe(0);
+  });
+});
+
+describe("checkResumeFormatting", () => {
+  it("passes contact, bullet and date checks on a well-formed resume", () => {
+    expect(check(RESUME, "Email address").passed).toBe(true);
+    expect(check(RESUME, "Phone number").passed).toBe(true);
+    expect(check(RESUME, "Bullet points").passed).toBe(true);
+    expect(check(RESUME, "Dated experience").passed).toBe(true);
+    expect(check(RESUME, "No tables or columns").passed).toBe(true);
+  });
+
+  it("does not count employment dates as a phone number", () => {
+    const withoutPhone = RESUME.replace(" | (555) 123-4567", "");
+    expect(check(withoutPhone, "Phone number").passed).toBe(false);
+    expect(detectResumeSections("Experience\nEngineer | Acme | 2017 - 2019").find(s => s.name === "Contact")?.found).toBe(false);
+  });
+
+  it("flags table-like rows", () => {
+    const result = check(`${RESUME}\nGo | PostgreSQL | AWS | Terraform`, "No tables or columns");
+    expect(result.passed).toBe(false);
+    expect(result.detail).toBe("1 lines look like table rows.");
+  });
+
+  it("flags very short and very long resumes", () => {
+    expect(check("Jane Doe\nEngineer", "Length").passed).toBe(false);
+    expect(check(Array(1300).fill("word").join(" "), "Length").passed).toBe(false);
+  });
+
+  it("flags overly long lines and unusual symbols", () => {
+    expect(check(`${RESUME}\n${"a".repeat(230)}`, "Readable line length").passed).toBe(false);
+    expect(check(`${RESUME}\n${"★".repeat(12)}`, "Standard characters").passed).toBe(false);
+  });
+
+  it("fails the dated experience check when roles have no dates", () => {
+    expect(check("Experience\nEngineer at Acme\n- Built things", "Dated experience").passed).toBe(false);
+  });
+});
@@ -0,0 +1,125 @@
+import { BULLET_REGEX, DATE_RANGE_REGEX, EMAIL_REGEX, detectSectionHeading, findPhoneNumber } from "./resumeStructure";
+
+export interface LocalAtsScore {
+  score: number;
+  keywordScore: number;
+  sectionScore: number;
+  formattingScore: number;
+  keywords: { term: string; weight: number; matched: boolean }[];
+  sections: { name: string; found: boolean }[];
+  formattingChecks: { label: string; passed: boolean; detail: string }[];
+}
+
+export const ATS_WEIGHTS = { keywords: 0.6, sections: 0.2, formatting: 0.2 };
+const MAX_JOB_KEYWORDS = 25;
+
+const STOPWORDS = new Set([
+  "a", "an", "and", "are", "as", "at", "be", "been", "but", "by", "can", "do", "for", "from", "has", "have", "he", "her",
+  "his", "i", "if", "in", "into", "is", "it", "its", "may", "more", "most", "must", "no", "not", "of", "on", "or", "our",
+  "she", "should", "so", "such", "than", "that", "the", "their", "them", "then", "there", "these", "they", "this", "those",
+  "to", "up", "us", "was", "we", "were", "what", "when", "where", "which", "who", "will", "with", "would", "you", "your",
+  "all", "any", "about", "also", "other", "over", "well", "very", "each", "both", "within", "across", "per", "via",
+  // Job-posting filler that shows up everywhere and says nothing about fit
+  "ability", "able", "candidate", "candidates", "company", "etc", "including", "job", "join", "looking", "new", "plus",
+  "preferred", "required", "requirements", "responsibilities", "role", "strong", "team", "teams", "work", "working",
+  "year", "years", "experience", "opportunity", "ideal", "help", "great", "make", "using", "use", "day", "based", "like",
+  "know", "knowledge", "understanding", "familiarity", "excellent", "good"
+]);
+
+const REQUIREMENT_LINE_REGEX = /\b(require|required|requirements|must|qualifications|you have|you bring|minimum)\b/i;
+
+export const tokenize = (text: string) =>
+  (text.toLowerCase().match(/[a-z0-9][a-z0-9+#.\-/]*[a-z0-9+#]|[a-z0-9]/g) ?? []);
+
+// Folds simple plurals ("systems" -> "system") without touching names like "node.js"
+export const normalizeToken = (token: string) =>
+  /^[a-z]{3,}s$/.test(token) && !token.endsWith("ss") ? token.slice(0, -1) : token;
+
+export const isKeywordToken = (token: string) =>
+  !STOPWORDS.has(token) && /[a-z]/.test(token) && (token.length > 1 || /[+#]/.test(token));
+
+// Ranks single words and two-word phrases from the job description by frequency,
+// boosting anything that appears on a requirements line
+export const extractJobKeywords = (jobDescription: string): { term: string; weight: number }[] => {
+  const weights = new Map<string, number>();
+  const bigramCounts = new Map<string, number>();
+  const add = (term: string, weight: number) => weights.set(term, (weights.get(term) ?? 0) + weight);
+
+  jobDescription.split(/\n|[.;!?](?:\s|$)/).forEach(line => {
+    const boost = REQUIREMENT_LINE_REGEX.test(line) ? 1.5 : 1;
+    const tokens = tokenize(line);
+    tokens.forEach((token, i) => {
+      if (!isKeywordToken(token)) return;
+      add(normalizeToken(token), boost);
+      const next = tokens[i + 1];
+      if (next && isKeywordToken(next)) {
+        const phrase = `${normalizeToken(token)} ${normalizeToken(next)}`;
+        bigramCounts.set(phrase, (bigramCounts.get(phrase) ?? 0) + 1);
+        add(phrase, 1.5 * boost);
+      }
+    });
+  });
+
+  // A phrase only counts as a keyword once it repeats; one-off word pairs are noise
+  bigramCounts.forEach((count, phrase) => { if (count < 2) weights.delete(phrase); });
+
+  return Array.from(weights.entries())
+    .map(([term, weight]) => ({ term, weight: Math.round(weight * 10) / 10 }))
+    .sort((a, b) => b.weight - a.weight || a.term.localeCompare(b.term))
+    .slice(0, MAX_JOB_KEYWORDS);
+};
+
+export const detectResumeSections = (resumeText: string) => {
+  const found = new Set(resumeText.split(/\r?\n/).map(l => detectSectionHeading(l.trim())).filter(Boolean));
+  return [
+    { name: "Contact", found: EMAIL_REGEX.test(resumeText) || !!findPhoneNumber(resumeText) },
+    { name: "Summary", found: found.has("summary") },
+    { name: "Experience", found: found.has("experience") },
+    { name: "Education", found: found.has("education") },
+    { name: "Skills", found: found.has("skills") }
+  ];
+};
+
+export const checkResumeFormatting = (resumeText: string) => {
+  const lines = resumeText.split(/\r?\n/).map(l => l.trim()).filter(Boolean);
+  const wordCount = tokenize(resumeText).length;
+  const bulletLines = lines.filter(l => BULLET_REGEX.test(l)).length;
+  const tableLikeLines = lines.filter(l => (l.match(/\||\t/g) ?? []).length >= 3).length;
+  const longLines = lines.filter(l => l.length > 220).length;
+  const dateRanges = lines.filter(l => DATE_RANGE_REGEX.test(l)).length;
+  const nonAscii = (resumeText.match(/[^\x00-\x7F•–—’“”‘é]/g) ?? []).length;
+
+  return [
+    { label: "Email address", passed: EMAIL_REGEX.test(resumeText), detail: "Recruiters and ATS need a way to reach you." },
+    { label: "Phone number", passed: !!findPhoneNumber(resumeText), detail: "Include a phone number in the header." },
+    { label: "Length", passed: wordCount >= 250 && wordCount <= 1200, detail: `${wordCount} words (aim for 250–1200).` },
+    { label: "Bullet points", passed: bulletLines >= 3, detail: `${bulletLines} bullet lines found. Use bullets for achievements.` },
+    { label: "No tables or columns", passed: tableLikeLines === 0, detail: tableLikeLines ? `${tableLikeLines} lines look like table rows.` : "Single-column layout." },
+    { label: "Readable line length", passed: longLines === 0, detail: longLines ? `${longLines} very long lines or paragraphs.` : "Lines are a readable length." },
+    { label: "Dated experience", passed: dateRanges > 0, detail: dateRanges ? `${dateRanges} date ranges found.` : "Add start and end dates to each role." },
+    { label: "Standard characters", passed: nonAscii < 10, detail: nonAscii ? `${nonAscii} unusual symbols may not parse.` : "No unusual symbols." }
+  ];
+};
+
+// Reproducible score: same resume and job always produce the same number
+export const scoreResumeLocally = (resumeText: string, jobDescription: string): LocalAtsScore => {
+  const resumeTokens = tokenize(resumeText).map(normalizeToken);
+  const resumeTerms = new Set(resumeTokens);
+  resumeTokens.forEach((token, i) => { if (resumeTokens[i + 1]) resumeTerms.add(`${token} ${resumeTokens[i + 1]}`); });
+
+  const keywords = extractJobKeywords(jobDescription).map(k => ({ ...k, matched: resumeTerms.has(k.term) }));
+  const totalWeight = keywords.reduce((sum, k) => sum + k.weight, 0);
+  const matchedWeight = keywords.filter(k => k.matched).reduce((sum, k) => sum + k.weight, 0);
+  const keywordScore = totalWeight > 0 ? Math.round((matchedWeight / totalWeight) * 100) : 0;
+
+  const sections = detectResumeSections(resumeText);
+  const sectionScore = Math.round((sections.filter(s => s.found).length / sections.length) * 100);
+
+  const formattingChecks = checkResumeFormatting(resumeText);
+  const formattingScore = Math.round((formattingChecks.filter(c => c.passed).length / formattingChecks.length) * 100);
+
+  const score = Math.round(
+    keywordScore * ATS_WEIGHTS.keywords + sectionScore * ATS_WEIGHTS.sections + formattingScore * ATS_WEIGHTS.formatting
+  );
+  return { score, keywordScore, sectionScore, formattingScore, keywords, sections, formattingChecks };
+};
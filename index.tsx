@@ -1,4 +1,4 @@
-import React, { useState, useRef, useEffect } from "react";
+import React, { useState, useRef, useEffect, useMemo } from "react";
 import { createRoot } from "react-dom/client";
 import { GoogleGenAI, Type } from "@google/genai";
 import { 
@@ -7,8 +7,12 @@ import {
   ArrowRight, Star, ChevronDown, ChevronUp, Loader2, Sparkles, Wand2,
   Layout, History, Edit2, Save, Link as LinkIcon, MonitorPlay, FileCheck,
   LogIn, User as UserIcon, LogOut, Lock, ThumbsUp, TrendingUp, HelpCircle,
-  MicOff, Check, Video, MessageSquare, Grid
+  MicOff, Check, Video, MessageSquare, Grid, Settings, BarChart2, Target, Calendar
 } from "lucide-react";
+import { type ParsedResume, RESUME_SECTION_HEADINGS, detectSectionHeading, parseResumeStructure } from "./resumeStructure";
+import { ATS_WEIGHTS, tokenize, normalizeToken, isKeywordToken, scoreResumeLocally } from "./atsScoring";
+import { fetchJobPosting } from "./jobImport";
+import { claimSessionIds } from "./sessionIds";
 // Import parsing libraries from ESM CDN
 import * as pdfjsLibProxy from 'https://esm.sh/pdfjs-dist@3.11.174';
 import mammoth from 'https://esm.sh/mammoth@1.6.0';
@@ -19,7 +23,7 @@ pdfjsLib.GlobalWorkerOptions.workerSrc = `https://cdnjs.cloudflare.com/ajax/libs
 
 // --- TYPES ---
 
-type Step = 'landing' | 'upload' | 'job-desc' | 'analysis' | 'dashboard' | 'cover-letter' | 'written-practice' | 'verbal-practice' | 'candidate-questions' | 'mock-interview' | 'mock-analysis' | 'summary' | 'history';
+type Step = 'landing' | 'upload' | 'job-desc' | 'analysis' | 'dashboard' | 'cover-letter' | 'written-practice' | 'verbal-practice' | 'candidate-questions' | 'mock-interview' | 'mock-analysis' | 'summary' | 'history' | 'tracker' | 'compare' | 'progress' | 'question-bank';
 
 interface User {
   email: string;
@@ -53,6 +57,22 @@ interface AnswerFeedback {
   specific_feedback: string;
 }
 
+interface DeliveryMetrics {
+  durationSeconds: number;
+  wordCount: number;
+  wordsPerMinute: number;
+  fillerCounts: Record<string, number>;
+  totalFillers: number;
+  longPauses: number;
+  longestPauseSeconds: number;
+}
+
+interface TranscriptSegment {
+  start: number; // seconds from the start of the answer
+  end: number;
+  text: string;
+}
+
 interface ResumeVersion {
   id: string;
   name: string;
@@ -65,19 +85,68 @@ interface CoverLetterVersion {
   name: string;
   content: string;
   isSelected?: boolean;
+  promptVersion?: string;
 }
 
 interface CandidateQuestion {
+  id: string;
+  interviewerType: 'recruiter' | 'hiring manager' | 'peer' | 'executive';
   question: string;
   context: string;
+  goodSignal: string;
+  badSignal: string;
+  isStarred?: boolean;
+  isCustom?: boolean;
+  promptVersion?: string;
+}
+
+interface SessionAttachment {
+  id: string;
+  kind: 'resume';
+  fileName: string;
+  mimeType: string;
+  size: number;
+  data: string; // base64
+}
+
+type ApplicationStatus = 'saved' | 'applied' | 'phone-screen' | 'onsite' | 'offer' | 'rejected';
+
+// A copy of what was sent, so later edits and regenerations don't change the record
+interface SubmittedDocument {
+  versionId: string | null; // null for the original, unoptimized resume
+  name: string;
+  content: string;
+  submittedAt: number;
+}
+
+interface JobApplication {
+  status: ApplicationStatus;
+  // When each status was reached; kept when the status moves on
+  statusDates: Partial<Record<ApplicationStatus, number>>;
+  notes: string;
+  submittedResume: SubmittedDocument | null;
+  submittedCoverLetter: SubmittedDocument | null;
+}
+
+interface MockInterviewFeedback {
+  rubric: { competency: string; score: number; comment: string }[];
+  annotations: { turnIndex: number; note: string; sentiment: 'positive' | 'negative' | 'neutral' }[];
+  strongestAnswer: { turnIndex: number; reason: string };
+  weakestAnswer: { turnIndex: number; reason: string };
+  verdict: string;
+  recommendation: 'strong hire' | 'hire' | 'lean no hire' | 'no hire';
 }
 
 interface SessionData {
   id: string;
   timestamp: number;
   resumeText: string;
+  parsedResume: ParsedResume | null;
   jobDescription: string;
   jobUrl?: string;
+  jobTitle?: string;
+  company?: string;
+  jobLocation?: string;
   fileName: string;
   analysis: AnalysisResult | null;
   optimizedResumes: ResumeVersion[];
@@ -91,15 +160,41 @@ interface SessionData {
     questionIndex: number;
     answer: string;
     feedback: AnswerFeedback | null;
+    promptVersion?: string;
+    answeredAt: number;
   }[];
   verbalAnswers: {
     questionIndex: number;
     transcript: string;
     feedback: AnswerFeedback | null;
+    metrics: DeliveryMetrics | null;
+    promptVersion?: string;
+    answeredAt: number;
   }[];
   candidateQuestions: CandidateQuestion[];
   mockInterviewTranscript: { role: 'ai' | 'user'; text: string }[];
-  mockInterviewFeedback: string | null;
+  mockInterviewFeedback: MockInterviewFeedback | null;
+  // Prompt template version ("name@vN") behind each generated result
+  promptVersions: Partial<Record<'analysis' | 'optimizedResumes' | 'questions' | 'mockInterviewFeedback', string>>;
+  // Where the user was at the last autosave, so the session resumes on that step
+  lastStep: Step;
+  stepHistory: Step[];
+  updatedAt: number;
+  // Set once the summary step is reached; unfinished sessions show as in progress
+  completedAt: number | null;
+  // The original uploaded resume, so exports can carry the file and not just its text
+  attachments: SessionAttachment[];
+  application: JobApplication;
+}
+
+// An answer from the daily drill; it belongs to the question bank rather than to a session
+interface DrillAttempt {
+  id: string;
+  question: InterviewQuestion;
+  answer: string;
+  feedback: AnswerFeedback;
+  promptVersion: string;
+  answeredAt: number;
 }
 
 // --- CONSTANTS ---
@@ -127,504 +222,5898 @@ const FUNNY_LOADING_MESSAGES = [
   "Flipping a coin..."
 ];
 
-// --- API HELPER ---
+// --- MOCK FIXTURES ---
 
-const analyzeWithGemini = async (prompt: string, model: string = "gemini-2.5-flash", schema?: any) => {
-  try {
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-    const config: any = {
-      responseMimeType: schema ? "application/json" : "text/plain",
+// Canned responses for the offline provider. They follow each task's response schema
+// so every screen can be exercised without network access or an API key.
+const MOCK_RESUME_MARKDOWN = (variant: string) => `# Jane Doe
+jane.doe@example.com | (555) 010-2030 | San Francisco, CA
+
+## Summary
+${variant} rewrite: Senior frontend engineer with 8 years building React and TypeScript products used by millions.
+
+## Experience
+### Senior Frontend Engineer, Acme Corp (Jan 2020 – Present)
+- Led migration of a 200k-line codebase to TypeScript, cutting production bugs by 35%
+- Built a shared design system adopted by 6 product teams
+
+### Software Engineer, Globex (Mar 2016 – Dec 2019)
+- Shipped GraphQL APIs serving 2M requests per day
+
+## Education
+- B.S. Computer Science, University of California, Berkeley (2016)
+
+## Skills
+- TypeScript, React, Node.js, GraphQL, AWS, Design Systems`;
+
+const MOCK_INTERVIEWER_LINES = [
+  "Hi, thanks for making the time today. To start, can you walk me through a recent project you're proud of?",
+  "What was the hardest technical decision on that project, and how did you make it?",
+  "Tell me about a time you disagreed with a teammate. How did you resolve it?",
+  "Thanks, that's all I have. We'll be in touch about next steps."
+];
+
+const MOCK_FIXTURES: Record<AITask, (prompt: string) => unknown> = {
+  'analyze': () => ({
+    match_score: 72,
+    missing_keywords: ["GraphQL", "Design Systems", "Accessibility"],
+    keyword_density: [
+      { term: "React", count: 4 },
+      { term: "TypeScript", count: 2 },
+      { term: "Node.js", count: 1 },
+      { term: "GraphQL", count: 0 },
+      { term: "Accessibility", count: 0 }
+    ],
+    formatting_issues: ["Dates use inconsistent formats", "Skills section is a single long paragraph"],
+    skills_gap: ["GraphQL", "Accessibility (WCAG)", "Design Systems"],
+    recommendations: [
+      { priority: "high", suggestion: "Add GraphQL experience if you have it, with a concrete project.", location: "Experience" },
+      { priority: "high", suggestion: "Open with a summary that names React and TypeScript.", location: "Summary" },
+      { priority: "medium", suggestion: "Break skills into grouped bullet lists.", location: "Skills" },
+      { priority: "low", suggestion: "Add a LinkedIn URL to your header.", location: "Contact" }
+    ]
+  }),
+  'optimize-resume': () => ({
+    versions: ["Keyword-Heavy", "Concise", "Leadership-Focused"].map(name => ({ name, content: MOCK_RESUME_MARKDOWN(name) }))
+  }),
+  'generate-questions': () => ({
+    questions: [
+      { type: "behavioral", question: "Tell me about a time you led a project under a tight deadline.", why_asked: "Tests ownership and prioritization." },
+      { type: "technical", question: "How would you structure state management in a large React app?", why_asked: "Checks architectural judgment." },
+      { type: "situational", question: "A release breaks checkout on Friday evening. What do you do?", why_asked: "Assesses incident response." },
+      { type: "behavioral", question: "Describe a disagreement with a product manager and how it ended.", why_asked: "Evaluates collaboration." },
+      { type: "technical", question: "How do you make a component library accessible?", why_asked: "Probes accessibility knowledge." }
+    ]
+  }),
+  'grade-answer': (prompt) => ({
+    score: prompt.length % 2 === 0 ? 84 : 68,
+    strengths: ["Clear situation and task", "Named the tools involved"],
+    improvements: ["Quantify the result", "Spend less time on background"],
+    model_answer: "At Acme, our checkout rewrite was two weeks behind. I cut scope to the three flows that drove 90% of revenue, paired with QA daily, and we launched on time with a 12% conversion lift.",
+    specific_feedback: "Solid structure. Make the outcome measurable and it becomes a strong answer."
+  }),
+  'transcribe': () => ({
+    segments: [
+      { start: 0, end: 6.5, text: "So, um, at my last company I led the migration to TypeScript." },
+      { start: 10.2, end: 17, text: "It was like two hundred thousand lines and we, uh, did it incrementally." },
+      { start: 17.4, end: 22, text: "Production bugs dropped about thirty five percent." }
+    ]
+  }),
+  'cover-letter': (prompt) => prompt.includes("Rewrite ONLY paragraph")
+    ? "In my four years at Acme I led the TypeScript migration that cut production bugs by 35%, and built the design system six teams now ship with. That is exactly the kind of leverage your team is hiring for."
+    : [
+      "Dear Hiring Manager,",
+      "I'm excited to apply for the Senior Frontend Engineer role. Your focus on a fast, accessible product matches the work I've done for the past eight years.",
+      "At Acme Corp I led the migration of a 200k-line codebase to TypeScript, cutting production bugs by 35%, and built a design system adopted by six teams.",
+      "I'd love to bring that same mix of technical depth and collaboration to your team. Thank you for your consideration.",
+      "Sincerely,\nJane Doe"
+    ].join("\n\n"),
+  'candidate-questions': () => ({
+    questions: [
+      { interviewerType: "recruiter", question: "What does the interview process look like from here?", context: "Sets expectations and timeline.", goodSignal: "A clear, time-boxed process.", badSignal: "Vague or ever-changing steps." },
+      { interviewerType: "hiring manager", question: "What would success look like in the first 90 days?", context: "Shows you're thinking about impact.", goodSignal: "Concrete, realistic goals.", badSignal: "No clear definition of success." },
+      { interviewerType: "peer", question: "How does the team handle code review and disagreements?", context: "Reveals day-to-day culture.", goodSignal: "Respectful, documented norms.", badSignal: "Reviews are a bottleneck or a battleground." },
+      { interviewerType: "executive", question: "Where does this team's work fit in the company's plans for next year?", context: "Signals strategic thinking.", goodSignal: "The team is tied to a clear priority.", badSignal: "The team's future is uncertain." }
+    ]
+  }),
+  'mock-interview': (prompt) => {
+    const conversation = prompt.split("CONVERSATION SO FAR:")[1] ?? "";
+    const answers = (conversation.match(/^\s*Candidate:/gm) ?? []).length;
+    const index = Math.min(answers, MOCK_INTERVIEWER_LINES.length - 1);
+    return {
+      message: MOCK_INTERVIEWER_LINES[index],
+      action: index === MOCK_INTERVIEWER_LINES.length - 1 ? "wrap_up" : index === 1 ? "follow_up" : "ask"
     };
-    if (schema) {
-      config.responseSchema = schema;
+  },
+  'mock-analysis': (prompt) => {
+    const candidateTurns = Array.from(prompt.matchAll(/\[(\d+)\] Candidate:/g)).map(m => Number(m[1]));
+    const first = candidateTurns[0] ?? 0;
+    const last = candidateTurns[candidateTurns.length - 1] ?? 0;
+    return {
+      rubric: [
+        { competency: "Communication", score: 78, comment: "Clear and well paced." },
+        { competency: "Technical Depth", score: 70, comment: "Good breadth; go deeper on trade-offs." },
+        { competency: "STAR Structure", score: 62, comment: "Results were often missing." },
+        { competency: "Culture Fit", score: 82, comment: "Collaborative and self-aware." }
+      ],
+      annotations: candidateTurns.map((turnIndex, i) => ({
+        turnIndex,
+        note: i % 2 === 0 ? "Strong setup; quantify the outcome." : "Good example of collaboration.",
+        sentiment: i % 2 === 0 ? "neutral" : "positive"
+      })),
+      strongestAnswer: { turnIndex: last, reason: "Specific, honest and focused on the team outcome." },
+      weakestAnswer: { turnIndex: first, reason: "Too much background and no measurable result." },
+      verdict: "Solid communicator with relevant experience. I'd want to see more depth on technical trade-offs before an offer, but would move them to the onsite.",
+      recommendation: "hire"
+    };
+  }
+};
+
+// --- RESPONSE SCHEMAS ---
+
+// One definition per AI response: `gemini` is sent as the responseSchema, `parse`
+// checks the reply at runtime, coercing what it can and filling safe defaults
+interface ResponseSchema<T> {
+  gemini: Record<string, unknown>;
+  parse: (value: unknown, path: string, issues: string[]) => T;
+}
+
+type InferSchema<S> = S extends ResponseSchema<infer T> ? T : never;
+
+const str = (fallback = ""): ResponseSchema<string> => ({
+  gemini: { type: Type.STRING },
+  parse: (value, path, issues) => {
+    if (typeof value === "string") return value;
+    if (typeof value === "number" || typeof value === "boolean") return String(value);
+    issues.push(`${path} should be text`);
+    return fallback;
+  }
+});
+
+const num = ({ min = -Infinity, max = Infinity, fallback = 0 } = {}): ResponseSchema<number> => ({
+  gemini: { type: Type.NUMBER },
+  parse: (value, path, issues) => {
+    const n = typeof value === "string" ? parseFloat(value) : value;
+    if (typeof n !== "number" || !Number.isFinite(n)) {
+      issues.push(`${path} should be a number`);
+      return fallback;
     }
+    return Math.min(max, Math.max(min, n));
+  }
+});
 
-    const response = await ai.models.generateContent({
-      model: model,
-      contents: prompt,
-      config: config
-    });
-    
-    let text = response.text;
-    if (!text) throw new Error("No response from AI");
-    
-    // Clean potential markdown code blocks
-    if (schema) {
-      text = text.trim();
-      if (text.startsWith("```json")) {
-        text = text.replace(/^```json\n?/, "").replace(/\n?```$/, "");
-      } else if (text.startsWith("```")) {
-        text = text.replace(/^```\n?/, "").replace(/\n?```$/, "");
+const oneOf = <const T extends string>(values: readonly T[], fallback: T): ResponseSchema<T> => ({
+  gemini: { type: Type.STRING, enum: [...values] },
+  parse: (value, path, issues) => {
+    const match = typeof value === "string" ? values.find(v => v === value.trim().toLowerCase()) : undefined;
+    if (match) return match;
+    issues.push(`${path} should be one of: ${values.join(", ")}`);
+    return fallback;
+  }
+});
+
+const list = <T,>(item: ResponseSchema<T>, { min = 0 } = {}): ResponseSchema<T[]> => ({
+  gemini: { type: Type.ARRAY, items: item.gemini, ...(min > 0 ? { minItems: String(min) } : {}) },
+  parse: (value, path, issues) => {
+    if (!Array.isArray(value)) {
+      issues.push(`${path} should be a list`);
+      return [];
+    }
+    if (value.length < min) issues.push(`${path} should have at least ${min} item${min === 1 ? "" : "s"}`);
+    return value.map((v, i) => item.parse(v, `${path}[${i}]`, issues));
+  }
+});
+
+const obj = <S extends Record<string, ResponseSchema<unknown>>>(shape: S): ResponseSchema<{ [K in keyof S]: InferSchema<S[K]> }> => ({
+  gemini: {
+    type: Type.OBJECT,
+    properties: Object.fromEntries(Object.entries(shape).map(([key, schema]) => [key, schema.gemini])),
+    required: Object.keys(shape)
+  },
+  parse: (value, path, issues) => {
+    const isObject = !!value && typeof value === "object" && !Array.isArray(value);
+    if (!isObject) issues.push(`${path || "response"} should be an object`);
+    const source = (isObject ? value : {}) as Record<string, unknown>;
+    return Object.fromEntries(Object.entries(shape).map(([key, schema]) => {
+      const childPath = path ? `${path}.${key}` : key;
+      if (source[key] === undefined || source[key] === null) {
+        issues.push(`${childPath} is missing`);
+        return [key, schema.parse(undefined, childPath, [])];
+      }
+      return [key, schema.parse(source[key], childPath, issues)];
+    })) as { [K in keyof S]: InferSchema<S[K]> };
+  }
+});
+
+const INTERVIEWER_TYPES = ['recruiter', 'hiring manager', 'peer', 'executive'] as const;
+const QUESTION_TYPES = ['behavioral', 'technical', 'situational'] as const;
+
+const ANALYSIS_SCHEMA: ResponseSchema<AnalysisResult> = obj({
+  match_score: num({ min: 0, max: 100 }),
+  missing_keywords: list(str()),
+  keyword_density: list(obj({ term: str(), count: num({ min: 0 }) })),
+  formatting_issues: list(str()),
+  skills_gap: list(str()),
+  recommendations: list(obj({ priority: oneOf(['high', 'medium', 'low'], 'medium'), suggestion: str(), location: str("General") }))
+});
+
+const ANSWER_FEEDBACK_SCHEMA: ResponseSchema<AnswerFeedback> = obj({
+  score: num({ min: 0, max: 100 }),
+  strengths: list(str()),
+  improvements: list(str()),
+  model_answer: str(),
+  specific_feedback: str()
+});
+
+const INTERVIEW_QUESTIONS_SCHEMA: ResponseSchema<{ questions: InterviewQuestion[] }> = obj({
+  questions: list(obj({ type: oneOf(QUESTION_TYPES, 'behavioral'), question: str(), why_asked: str() }), { min: 1 })
+});
+
+const RESUME_VERSIONS_SCHEMA = obj({
+  versions: list(obj({ name: str("Draft"), content: str() }))
+});
+
+const CANDIDATE_QUESTIONS_SCHEMA: ResponseSchema<{ questions: Omit<CandidateQuestion, 'id'>[] }> = obj({
+  questions: list(obj({
+    interviewerType: oneOf(INTERVIEWER_TYPES, 'hiring manager'),
+    question: str(),
+    context: str(),
+    goodSignal: str(),
+    badSignal: str()
+  }))
+});
+
+const INTERVIEWER_TURN_SCHEMA: ResponseSchema<InterviewerTurn> = obj({
+  message: str(),
+  action: oneOf(['ask', 'follow_up', 'wrap_up'], 'ask')
+});
+
+const MOCK_FEEDBACK_SCHEMA: ResponseSchema<MockInterviewFeedback> = obj({
+  rubric: list(obj({ competency: str(), score: num({ min: 0, max: 100 }), comment: str() })),
+  annotations: list(obj({ turnIndex: num({ min: 0 }), note: str(), sentiment: oneOf(['positive', 'negative', 'neutral'], 'neutral') })),
+  strongestAnswer: obj({ turnIndex: num({ min: 0 }), reason: str() }),
+  weakestAnswer: obj({ turnIndex: num({ min: 0 }), reason: str() }),
+  verdict: str(),
+  recommendation: oneOf(['strong hire', 'hire', 'lean no hire', 'no hire'], 'lean no hire')
+});
+
+const TRANSCRIPT_SCHEMA: ResponseSchema<{ segments: TranscriptSegment[] }> = obj({
+  segments: list(obj({ start: num({ min: 0 }), end: num({ min: 0 }), text: str() }))
+});
+
+// --- AI CACHE ---
+
+// Responses are stored under a hash of everything that can change them, so identical requests
+// are answered locally with the same result instead of spending quota on a new one
+interface AICacheEntry {
+  key: string;
+  task: AITask;
+  promptVersion: string;
+  provider: AIProviderId;
+  model: string;
+  createdAt: number;
+  value: unknown;
+}
+
+const AI_CACHE_KEY_PREFIX = "cc_ai_cache_";
+// The unscoped, plain text cache from before accounts; removed when anyone signs in
+const LEGACY_AI_CACHE_KEY = "cc_ai_cache";
+const MAX_AI_CACHE_ENTRIES = 200;
+
+// Responses quote the resume they were made from, so they are kept like sessions: only in memory
+// while signed out, and encrypted with the account key under the owner's name while signed in
+interface AICacheScope {
+  owner: string | null;
+  key: CryptoKey | null;
+  entries: AICacheEntry[];
+}
+
+let aiCache: AICacheScope = { owner: null, key: null, entries: [] };
+let aiCacheWrites = Promise.resolve();
+
+const inFlightAIRequests = new Map<string, Promise<unknown>>();
+
+const hashAIRequest = async (parts: unknown[]) => {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(JSON.stringify(parts)));
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, "0")).join("");
+};
+
+const getAICacheEntries = () => aiCache.entries;
+
+// Writes run one at a time and always store the scope's latest entries. When storage is full
+// the oldest entries are dropped until the rest fit
+const persistAICache = (scope: AICacheScope) => {
+  aiCacheWrites = aiCacheWrites.then(async () => {
+    if (!scope.owner || !scope.key || scope !== aiCache) return;
+    const storageKey = AI_CACHE_KEY_PREFIX + scope.owner;
+    let kept = scope.entries;
+    while (kept.length > 0) {
+      const { iv, ciphertext } = await encryptJson(scope.key, kept);
+      try {
+        localStorage.setItem(storageKey, JSON.stringify({ iv: toBase64(iv), ciphertext: toBase64(ciphertext) }));
+        return;
+      } catch {
+        kept = kept.slice(0, Math.floor(kept.length / 2));
       }
     }
+    localStorage.removeItem(storageKey);
+  }).catch(error => console.warn("Could not save the AI response cache:", error));
+};
+
+// Newest first
+const saveAICacheEntries = (entries: AICacheEntry[]) => {
+  aiCache.entries = entries.slice(0, MAX_AI_CACHE_ENTRIES);
+  persistAICache(aiCache);
+};
 
-    return schema ? JSON.parse(text) : text;
+// Entries cached while signed out carry over into the account signing in, as the open session does
+const openAICache = async (owner: string, key: CryptoKey) => {
+  localStorage.removeItem(LEGACY_AI_CACHE_KEY);
+  const scope: AICacheScope = { owner, key, entries: aiCache.owner ? [] : aiCache.entries };
+  aiCache = scope;
+  let stored: AICacheEntry[] = [];
+  try {
+    const raw = localStorage.getItem(AI_CACHE_KEY_PREFIX + owner);
+    if (raw) {
+      const { iv, ciphertext } = JSON.parse(raw);
+      stored = await decryptJson(key, fromBase64(iv), fromBase64(ciphertext).buffer);
+    }
   } catch (error) {
-    console.error("Gemini API Error:", error);
-    throw error;
+    console.warn("Discarding an unreadable AI response cache:", error);
   }
+  if (aiCache !== scope) return;
+  const keys = new Set(scope.entries.map(e => e.key));
+  saveAICacheEntries([...scope.entries, ...stored.filter(e => !keys.has(e.key))]);
 };
 
-// --- HELPERS ---
+const closeAICache = () => {
+  aiCache = { owner: null, key: null, entries: [] };
+};
 
-const SimpleMarkdownRenderer = ({ content }: { content: string }) => {
-  if (!content) return null;
-  const lines = content.split('\n');
-  return (
-    <div className="font-sans space-y-2 text-gray-800">
-      {lines.map((line, i) => {
-        const trimmed = line.trim();
-        if (trimmed.startsWith('# ')) return <h1 key={i} className="text-2xl font-bold border-b border-gray-300 pb-1 mt-4 mb-2">{trimmed.substring(2)}</h1>;
-        if (trimmed.startsWith('## ')) return <h2 key={i} className="text-lg font-bold text-gray-700 mt-3 mb-1 uppercase tracking-wide">{trimmed.substring(3)}</h2>;
-        if (trimmed.startsWith('### ')) return <h3 key={i} className="text-md font-semibold text-gray-800 mt-2">{trimmed.substring(4)}</h3>;
-        if (trimmed.startsWith('- ') || trimmed.startsWith('* ')) return <div key={i} className="flex gap-2 ml-4"><span className="text-gray-400 mt-1.5">•</span><p className="flex-1">{trimmed.substring(2)}</p></div>;
-        if (trimmed === '') return <div key={i} className="h-1"></div>;
-        return <p key={i} className="leading-relaxed">{trimmed}</p>;
-      })}
-    </div>
-  );
+const getCachedAIResponse = (key: string) => getAICacheEntries().find(e => e.key === key);
+
+const putCachedAIResponse = (entry: AICacheEntry) => {
+  saveAICacheEntries([entry, ...getAICacheEntries().filter(e => e.key !== entry.key)]);
 };
 
-// --- COMPONENTS ---
+const deleteCachedAIResponse = (key: string) => {
+  saveAICacheEntries(getAICacheEntries().filter(e => e.key !== key));
+};
 
-const Header = ({ user, onLoginClick, onLogoutClick, onGoToHistory, onBack, showBack }: any) => (
-  <header className="bg-white border-b border-gray-100 sticky top-0 z-50">
-    <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 h-16 flex items-center justify-between">
-      <div className="flex items-center gap-4">
-        {showBack && (
-          <button onClick={onBack} className="p-2 hover:bg-gray-100 rounded-full text-gray-500 transition-colors">
-            <ChevronLeft className="w-5 h-5" />
-          </button>
-        )}
-        <div className="flex items-center gap-2 cursor-pointer" onClick={() => window.location.reload()}>
-          <div className="w-8 h-8 bg-primary rounded-lg flex items-center justify-center">
-            <Briefcase className="w-5 h-5 text-white" />
-          </div>
-          <span className="font-bold text-xl text-gray-900 hidden sm:inline">Career<span className="text-primary">Coach</span>.ai</span>
-        </div>
-      </div>
-      <div className="flex items-center gap-4">
-        {user ? (
-          <>
-            <button onClick={onGoToHistory} className="flex items-center gap-2 text-sm font-medium text-gray-600 hover:text-primary transition-colors">
-              <History className="w-4 h-4" /> History
-            </button>
-            <div className="flex items-center gap-3 pl-4 border-l border-gray-200">
-               <div className="flex flex-col text-right hidden sm:block">
-                 <span className="text-xs font-bold text-gray-900">{user.name}</span>
-                 <span className="text-xs text-gray-500">{user.email}</span>
-               </div>
-               <div className="w-8 h-8 bg-blue-100 text-blue-700 rounded-full flex items-center justify-center font-bold text-xs">{user.name.charAt(0)}</div>
-               <button onClick={onLogoutClick} className="p-2 hover:bg-gray-100 rounded-full text-gray-500" title="Logout"><LogOut className="w-4 h-4" /></button>
-            </div>
-          </>
-        ) : (
-          <button onClick={onLoginClick} className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-primary border border-primary/20 rounded-lg hover:bg-blue-50 transition-colors">
-            <LogIn className="w-4 h-4" /> Login
-          </button>
-        )}
-      </div>
-    </div>
-  </header>
-);
+const clearAICache = () => saveAICacheEntries([]);
 
-const LoadingScreen = ({ message }: { message: string }) => {
-  const [funnyMessage, setFunnyMessage] = useState(message);
-  
-  useEffect(() => {
-    let index = 0;
-    const interval = setInterval(() => {
-      setFunnyMessage(FUNNY_LOADING_MESSAGES[index % FUNNY_LOADING_MESSAGES.length]);
-      index++;
-    }, 2500);
-    return () => clearInterval(interval);
-  }, []);
+// --- AI PROVIDERS ---
 
-  return (
-    <div className="fixed inset-0 bg-white/90 backdrop-blur-sm z-[60] flex flex-col items-center justify-center p-4 animate-fade-in">
-      <div className="bg-white p-8 rounded-2xl shadow-xl flex flex-col items-center max-w-sm w-full border border-gray-100 text-center">
-        <div className="relative mb-6">
-          <div className="w-16 h-16 border-4 border-gray-100 rounded-full"></div>
-          <div className="w-16 h-16 border-4 border-primary border-t-transparent rounded-full animate-spin absolute top-0 left-0"></div>
-          <div className="absolute inset-0 flex items-center justify-center">
-            <Sparkles className="w-6 h-6 text-primary animate-pulse" />
-          </div>
-        </div>
-        <h3 className="text-xl font-bold text-gray-900 mb-2">Working Magic...</h3>
-        <p className="text-gray-500 animate-pulse key={funnyMessage}">{funnyMessage}</p>
-      </div>
-    </div>
-  );
-};
+type AIProviderId = 'gemini' | 'openai' | 'mock';
 
-const ProgressBar = ({ step }: { step: Step }) => {
-  if (step === 'landing' || step === 'history') return null;
-  
-  let progress = 0;
-  switch (step) {
-    case 'upload': progress = 15; break;
-    case 'job-desc': progress = 30; break;
-    case 'analysis': progress = 45; break;
-    case 'dashboard': progress = 60; break;
-    case 'cover-letter':
-    case 'written-practice':
-    case 'verbal-practice':
-    case 'candidate-questions':
-    case 'mock-interview':
-    case 'mock-analysis':
-      progress = 80; break;
-    case 'summary': progress = 100; break;
-    default: progress = 0;
-  }
+type AITask =
+  | 'analyze'
+  | 'optimize-resume'
+  | 'generate-questions'
+  | 'grade-answer'
+  | 'transcribe'
+  | 'cover-letter'
+  | 'candidate-questions'
+  | 'mock-interview'
+  | 'mock-analysis';
 
-  return (
-    <div className="fixed top-16 left-0 right-0 h-1 bg-gray-100 z-40">
-      <div 
-        className="h-full bg-primary transition-all duration-700 ease-out shadow-[0_0_10px_rgba(37,99,235,0.5)]"
-        style={{ width: `${progress}%` }}
-      />
-    </div>
-  );
+interface AIRequest {
+  task: AITask;
+  model: string;
+  prompt: string;
+  schema?: any;
+  attachments?: { mimeType: string; data: string }[];
+  signal?: AbortSignal;
+  // When set, the provider streams and reports the full text received so far after each chunk
+  onText?: (text: string) => void;
+}
+
+interface AIProvider {
+  id: AIProviderId;
+  label: string;
+  generate: (request: AIRequest) => Promise<string>;
+}
+
+interface AISettings {
+  openaiBaseUrl: string;
+  openaiApiKey: string;
+  tasks: Record<AITask, { provider: AIProviderId; model: string }>;
+  // Prompt template name -> pinned version; unpinned templates use their newest version
+  promptVersions: Record<string, number>;
+}
+
+const AI_TASK_LABELS: Record<AITask, string> = {
+  'analyze': "Resume analysis",
+  'optimize-resume': "Resume rewrites",
+  'generate-questions': "Interview questions",
+  'grade-answer': "Answer grading",
+  'transcribe': "Audio transcription",
+  'cover-letter': "Cover letters",
+  'candidate-questions': "Questions to ask",
+  'mock-interview': "Mock interviewer",
+  'mock-analysis': "Interview debrief"
 };
 
-const AuthModal = ({ isOpen, onClose, onLogin }: { isOpen: boolean; onClose: () => void; onLogin: (user: User) => void }) => {
-  if (!isOpen) return null;
-  
-  const [name, setName] = useState("");
-  const [email, setEmail] = useState("");
+// Cheap, fast models where volume matters; the strongest model where quality shows
+const GEMINI_TASK_MODELS: Record<AITask, string> = {
+  'analyze': "gemini-2.5-flash",
+  'optimize-resume': "gemini-2.5-pro",
+  'generate-questions': "gemini-2.5-flash-lite",
+  'grade-answer': "gemini-2.5-flash",
+  'transcribe': "gemini-2.5-flash",
+  'cover-letter': "gemini-2.5-pro",
+  'candidate-questions': "gemini-2.5-flash-lite",
+  'mock-interview': "gemini-2.5-flash",
+  'mock-analysis': "gemini-2.5-flash"
+};
 
-  const handleSubmit = (e: React.FormEvent) => {
-    e.preventDefault();
-    if (name && email) {
-      const user = { name, email };
-      localStorage.setItem("cc_user_session", JSON.stringify(user));
-      onLogin(user);
-      onClose();
-    }
+const AI_SETTINGS_KEY = "cc_ai_settings";
+
+const defaultModelFor = (provider: AIProviderId, task: AITask) => {
+  if (provider === 'gemini') return GEMINI_TASK_MODELS[task];
+  if (provider === 'openai') return process.env.OPENAI_MODEL || "llama3.1";
+  return "fixtures";
+};
+
+const getDefaultAISettings = (): AISettings => {
+  const provider = (process.env.AI_PROVIDER as AIProviderId) || 'gemini';
+  const tasks = {} as AISettings['tasks'];
+  (Object.keys(AI_TASK_LABELS) as AITask[]).forEach(task => {
+    tasks[task] = { provider, model: defaultModelFor(provider, task) };
+  });
+  return {
+    openaiBaseUrl: process.env.OPENAI_BASE_URL || "http://localhost:11434/v1",
+    openaiApiKey: process.env.OPENAI_API_KEY || "",
+    tasks,
+    promptVersions: {}
   };
+};
 
-  return (
-    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-[70] flex items-center justify-center p-4 animate-fade-in">
-       <div className="bg-white rounded-2xl shadow-2xl max-w-md w-full p-8 relative">
-          <button onClick={onClose} className="absolute top-4 right-4 text-gray-400 hover:text-gray-600 transition-colors">
-             <X className="w-5 h-5" />
-          </button>
-          
-          <div className="text-center mb-8">
-             <div className="w-12 h-12 bg-blue-50 text-primary rounded-xl flex items-center justify-center mx-auto mb-4">
-                <LogIn className="w-6 h-6" />
-             </div>
-             <h2 className="text-2xl font-bold text-gray-900">Welcome Back</h2>
-             <p className="text-gray-500 mt-1">Sign in to save your progress</p>
-          </div>
+// Every AI call reads these, so unreadable saved settings fall back to the defaults instead of breaking them all
+const getAISettings = (): AISettings => {
+  const defaults = getDefaultAISettings();
+  let parsed: Partial<AISettings>;
+  try {
+    parsed = JSON.parse(localStorage.getItem(AI_SETTINGS_KEY) ?? "{}");
+  } catch {
+    console.warn("Ignoring unreadable AI settings");
+    return defaults;
+  }
+  if (!parsed || typeof parsed !== "object") return defaults;
+  return { ...defaults, ...parsed, tasks: { ...defaults.tasks, ...parsed.tasks } };
+};
 
-          <form onSubmit={handleSubmit} className="space-y-4">
-             <div>
-                <label className="block text-sm font-medium text-gray-700 mb-1">Full Name</label>
-                <div className="relative">
-                   <UserIcon className="w-5 h-5 text-gray-400 absolute left-3 top-2.5" />
-                   <input 
-                     type="text" 
-                     required
-                     className="w-full pl-10 pr-4 py-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-primary focus:border-transparent transition-all outline-none"
-                     placeholder="John Doe"
-                     value={name}
-                     onChange={e => setName(e.target.value)}
-                   />
-                </div>
-             </div>
-             <div>
-                <label className="block text-sm font-medium text-gray-700 mb-1">Email Address</label>
-                <div className="relative">
-                   <Briefcase className="w-5 h-5 text-gray-400 absolute left-3 top-2.5" />
-                   <input 
-                     type="email" 
-                     required
-                     className="w-full pl-10 pr-4 py-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-primary focus:border-transparent transition-all outline-none"
-                     placeholder="john@example.com"
-                     value={email}
-                     onChange={e => setEmail(e.target.value)}
-                   />
-                </div>
-             </div>
-             <button type="submit" className="w-full py-3 bg-primary text-white font-bold rounded-lg hover:bg-primaryDark transition-colors mt-2 shadow-lg shadow-blue-200">
-                Sign In
-             </button>
-          </form>
-       </div>
-    </div>
-  );
+const saveAISettings = (settings: AISettings) => {
+  localStorage.setItem(AI_SETTINGS_KEY, JSON.stringify(settings));
 };
 
-const WrittenPracticeSession = ({
-  questions,
-  jobDescription,
-  onComplete,
-  onAnswerSubmit,
-  existingAnswers
-}: {
-  questions: InterviewQuestion[];
-  jobDescription: string;
-  onComplete: () => void;
-  onAnswerSubmit: (index: number, answer: string, feedback: AnswerFeedback) => void;
-  existingAnswers: { questionIndex: number; answer: string; feedback: AnswerFeedback | null }[];
-}) => {
-  const [currentIndex, setCurrentIndex] = useState(0);
-  const [answerText, setAnswerText] = useState("");
-  const [isAnalyzing, setIsAnalyzing] = useState(false);
-  const [feedback, setFeedback] = useState<AnswerFeedback | null>(null);
+// Gemini's schema dialect uses upper-case type names and sends int64 limits as strings;
+// JSON Schema wants lower-case names and integer limits
+const GEMINI_INTEGER_KEYWORDS = new Set(["minItems", "maxItems", "minLength", "maxLength", "minProperties", "maxProperties"]);
 
-  const currentQuestion = questions[currentIndex];
-  
-  // Load existing answer if available
-  useEffect(() => {
-    const existing = existingAnswers.find(a => a.questionIndex === currentIndex);
-    if (existing) {
-      setAnswerText(existing.answer);
-      setFeedback(existing.feedback);
+const toJsonSchema = (schema: any): any => {
+  if (Array.isArray(schema)) return schema.map(toJsonSchema);
+  if (!schema || typeof schema !== "object") return schema;
+  return Object.fromEntries(Object.entries(schema).map(([key, value]) => [
+    key,
+    key === "type" && typeof value === "string" ? value.toLowerCase()
+      : GEMINI_INTEGER_KEYWORDS.has(key) && typeof value === "string" ? Number(value)
+      : toJsonSchema(value)
+  ]));
+};
+
+const geminiProvider: AIProvider = {
+  id: 'gemini',
+  label: "Gemini",
+  generate: async ({ model, prompt, schema, attachments, signal, onText }) => {
+    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+    const config: any = {
+      responseMimeType: schema ? "application/json" : "text/plain",
+      abortSignal: signal
+    };
+    if (schema) {
+      config.responseSchema = schema;
+    }
+
+    const contents = attachments?.length
+      ? [{ role: "user", parts: [...attachments.map(a => ({ inlineData: a })), { text: prompt }] }]
+      : prompt;
+    if (!onText) {
+      const response = await ai.models.generateContent({ model, contents, config });
+      if (!response.text) throw new Error("No response from AI");
+      return response.text;
+    }
+
+    let text = "";
+    for await (const chunk of await ai.models.generateContentStream({ model, contents, config })) {
+      signal?.throwIfAborted();
+      text += chunk.text ?? "";
+      onText(text);
+    }
+    if (!text) throw new Error("No response from AI");
+    return text;
+  }
+};
+
+// Server-sent events from a streaming /chat/completions call: "data: {json}" lines ending with "data: [DONE]"
+const readChatCompletionStream = async (response: Response, onText: (text: string) => void, signal?: AbortSignal) => {
+  const reader = response.body!.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = "";
+  let text = "";
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    signal?.throwIfAborted();
+    buffer += value;
+    const lines = buffer.split("\n");
+    buffer = lines.pop() ?? "";
+    for (const line of lines) {
+      const data = line.startsWith("data:") ? line.slice(5).trim() : "";
+      if (!data || data === "[DONE]") continue;
+      text += JSON.parse(data).choices?.[0]?.delta?.content ?? "";
+    }
+    onText(text);
+  }
+  return text;
+};
+
+// Any /v1/chat/completions endpoint: Ollama, LM Studio, vLLM, llama.cpp server, OpenAI itself
+const openAICompatibleProvider: AIProvider = {
+  id: 'openai',
+  label: "OpenAI-compatible",
+  generate: async ({ task, model, prompt, schema, attachments, signal, onText }) => {
+    if (attachments?.length) throw new Error("The OpenAI-compatible provider does not support audio input");
+    const { openaiBaseUrl, openaiApiKey } = getAISettings();
+    const jsonSchema = schema ? toJsonSchema(schema) : null;
+
+    const response = await fetch(`${openaiBaseUrl.replace(/\/$/, "")}/chat/completions`, {
+      method: "POST",
+      signal,
+      headers: {
+        "Content-Type": "application/json",
+        ...(openaiApiKey ? { Authorization: `Bearer ${openaiApiKey}` } : {})
+      },
+      body: JSON.stringify({
+        model,
+        messages: [{
+          role: "user",
+          content: jsonSchema ? `${prompt}\n\nRespond only with JSON matching this schema:\n${JSON.stringify(jsonSchema)}` : prompt
+        }],
+        ...(jsonSchema ? { response_format: { type: "json_schema", json_schema: { name: task.replace(/-/g, "_"), schema: jsonSchema } } } : {}),
+        ...(onText ? { stream: true } : {})
+      })
+    });
+    if (!response.ok) throw new Error(`${response.status} ${response.statusText}: ${await response.text()}`);
+    const text = onText
+      ? await readChatCompletionStream(response, onText, signal)
+      : (await response.json()).choices?.[0]?.message?.content;
+    if (!text) throw new Error("No response from AI");
+    return text;
+  }
+};
+
+const wait = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  const timer = setTimeout(resolve, ms);
+  signal?.addEventListener('abort', () => { clearTimeout(timer); reject(signal.reason); }, { once: true });
+});
+
+const mockProvider: AIProvider = {
+  id: 'mock',
+  label: "Offline fixtures",
+  generate: async ({ task, prompt, signal, onText }) => {
+    const result = MOCK_FIXTURES[task](prompt);
+    const text = typeof result === "string" ? result : JSON.stringify(result, null, 2);
+    // Short delays keep loading and streaming states visible during offline development
+    if (!onText) {
+      await wait(400, signal);
+      return text;
+    }
+    for (let end = 24; end < text.length + 24; end += 24) {
+      await wait(20, signal);
+      onText(text.slice(0, end));
+    }
+    return text;
+  }
+};
+
+const AI_PROVIDERS: Record<AIProviderId, AIProvider> = {
+  gemini: geminiProvider,
+  openai: openAICompatibleProvider,
+  mock: mockProvider
+};
+
+class AIError extends Error {
+  constructor(
+    message: string,
+    public task: AITask,
+    public kind: 'provider' | 'invalid-response' | 'aborted',
+    public issues: string[] = []
+  ) {
+    super(message);
+    this.name = "AIError";
+  }
+}
+
+const MAX_AI_ATTEMPTS = 2;
+
+// Accepts JSON wrapped in code fences or surrounded by chatter, and trailing commas
+const parseJsonLoosely = (raw: string): unknown => {
+  let text = raw.trim();
+  if (text.startsWith("```json")) {
+    text = text.replace(/^```json\n?/, "").replace(/\n?```$/, "");
+  } else if (text.startsWith("```")) {
+    text = text.replace(/^```\n?/, "").replace(/\n?```$/, "");
+  }
+  try {
+    return JSON.parse(text);
+  } catch {
+    const start = text.indexOf("{");
+    const end = text.lastIndexOf("}");
+    if (start < 0 || end <= start) return undefined;
+    try {
+      return JSON.parse(text.slice(start, end + 1).replace(/,\s*([}\]])/g, "$1"));
+    } catch {
+      return undefined;
+    }
+  }
+};
+
+// Reads every value of a string field out of JSON that is still streaming in, including the
+// unterminated last one, so structured responses can be shown before they are complete
+const readPartialJsonStrings = (raw: string, field: string): string[] => {
+  const values: string[] = [];
+  const pattern = new RegExp(`"${field}"\\s*:\\s*"`, "g");
+  while (pattern.exec(raw)) {
+    let value = "";
+    let i = pattern.lastIndex;
+    for (; i < raw.length && raw[i] !== '"'; i++) {
+      if (raw[i] !== "\\") {
+        value += raw[i];
+        continue;
+      }
+      const escaped = raw[++i];
+      if (escaped === undefined) break;
+      if (escaped === "u") {
+        const code = raw.slice(i + 1, i + 5);
+        if (code.length < 4) break;
+        value += String.fromCharCode(parseInt(code, 16));
+        i += 4;
+      } else {
+        value += escaped === "n" ? "\n" : escaped === "t" ? "\t" : escaped === "r" ? "" : escaped;
+      }
+    }
+    values.push(value);
+    pattern.lastIndex = i;
+  }
+  return values;
+};
+
+const getErrorMessage = (error: unknown, fallback: string) =>
+  error instanceof AIError ? error.message : fallback;
+
+// Stopped requests are not failures; callers return quietly instead of showing an error
+const isAbortError = (error: unknown) => error instanceof AIError && error.kind === 'aborted';
+
+type AICallOptions = Pick<AIRequest, 'attachments' | 'signal' | 'onText'> & {
+  // Skip the cache and ask the model again; the new answer replaces the cached one
+  fresh?: boolean;
+};
+
+async function generateWithAI(task: AITask, prompt: RenderedPrompt, options?: AICallOptions): Promise<string>;
+async function generateWithAI<T>(task: AITask, prompt: RenderedPrompt, schema: ResponseSchema<T>, options?: AICallOptions): Promise<T>;
+async function generateWithAI<T>(task: AITask, prompt: RenderedPrompt, schemaOrOptions?: ResponseSchema<T> | AICallOptions, schemaOptions?: AICallOptions) {
+  const schema = schemaOrOptions && "parse" in schemaOrOptions ? schemaOrOptions : undefined;
+  const options = (schema ? schemaOptions : schemaOrOptions as AICallOptions | undefined) ?? {};
+  const { provider: providerId, model } = getAISettings().tasks[task];
+  const key = await hashAIRequest([task, prompt.version, providerId, model, prompt, options.attachments ?? []]);
+
+  if (!options.fresh) {
+    const cached = getCachedAIResponse(key);
+    if (cached) return cached.value;
+    // Identical requests already on their way share one response. Streaming callers need their
+    // own onText calls, so they always send a request of their own
+    const pending = options.onText ? undefined : inFlightAIRequests.get(key);
+    if (pending) {
+      try {
+        return await waitForAIRequest(task, pending, options.signal);
+      } catch (error) {
+        // The caller that started the request stopped it, but this one still wants the answer
+        if (!isAbortError(error) || options.signal?.aborted) throw error;
+      }
+    }
+  }
+
+  const cacheScope = aiCache;
+  const request = requestAIResponse(task, prompt.text, schema, options).then(({ value, isClean }) => {
+    // Responses patched with defaults are not kept, so the next attempt can do better, and a
+    // response that arrives after signing out or switching accounts isn't kept for the next user
+    if (isClean && aiCache === cacheScope) putCachedAIResponse({ key, task, promptVersion: prompt.version, provider: providerId, model, createdAt: Date.now(), value });
+    return value;
+  });
+  inFlightAIRequests.set(key, request);
+  try {
+    return await request;
+  } finally {
+    if (inFlightAIRequests.get(key) === request) inFlightAIRequests.delete(key);
+  }
+}
+
+// Lets a caller sharing someone else's request stop waiting when its own signal aborts
+const waitForAIRequest = (task: AITask, pending: Promise<unknown>, signal?: AbortSignal) => new Promise<unknown>((resolve, reject) => {
+  const stop = () => reject(new AIError("Generation stopped.", task, 'aborted'));
+  if (signal?.aborted) return stop();
+  signal?.addEventListener('abort', stop, { once: true });
+  pending.then(resolve, reject).finally(() => signal?.removeEventListener('abort', stop));
+});
+
+async function requestAIResponse<T>(task: AITask, prompt: string, schema: ResponseSchema<T> | undefined, { attachments, signal, onText }: AICallOptions) {
+  const { provider: providerId, model } = getAISettings().tasks[task];
+  const provider = AI_PROVIDERS[providerId] ?? geminiProvider;
+  let attemptPrompt = prompt;
+  let issues: string[] = [];
+
+  for (let attempt = 1; attempt <= MAX_AI_ATTEMPTS; attempt++) {
+    let text: string;
+    try {
+      text = await provider.generate({ task, model, prompt: attemptPrompt, schema: schema?.gemini, attachments, signal, onText });
+    } catch (error) {
+      if (signal?.aborted) throw new AIError("Generation stopped.", task, 'aborted');
+      console.error(`${provider.label} API Error:`, error);
+      throw new AIError(`${provider.label} request failed for ${AI_TASK_LABELS[task].toLowerCase()}. Check your connection and AI settings, then try again.`, task, 'provider');
+    }
+    if (!schema) return { value: text, isClean: true };
+
+    const json = parseJsonLoosely(text);
+    if (json && typeof json === "object" && !Array.isArray(json)) {
+      issues = [];
+      const value = schema.parse(json, "", issues);
+      // Small gaps are repaired with defaults rather than failing after the last attempt
+      if (issues.length === 0 || attempt === MAX_AI_ATTEMPTS) {
+        if (issues.length > 0) console.warn(`Repaired ${task} response:`, issues);
+        return { value, isClean: issues.length === 0 };
+      }
     } else {
-      setAnswerText("");
-      setFeedback(null);
+      issues = ["response is not a JSON object"];
     }
-  }, [currentIndex, existingAnswers]);
+    console.warn(`Invalid ${task} response (attempt ${attempt}):`, issues);
+    attemptPrompt = `${prompt}\n\nYour previous response was rejected: ${issues.join("; ")}. Reply with complete, valid JSON that includes every required field.`;
+  }
+
+  throw new AIError(`The AI returned an unreadable response for ${AI_TASK_LABELS[task].toLowerCase()}. Please try again.`, task, 'invalid-response', issues);
+}
+
+// --- PROMPT TEMPLATES ---
+
+// Each template keeps every version it has shipped with, so a result can always be traced
+// back to the exact wording that produced it. The newest version is used unless one is pinned
+// in AI Settings, which is how an older wording is kept around for A/B comparisons.
+interface PromptTemplate<V> {
+  name: string;
+  description: string;
+  versions: Record<number, (vars: V) => string>;
+}
+
+interface RenderedPrompt {
+  text: string;
+  version: string;
+}
+
+const definePrompt = <V,>(template: PromptTemplate<V>) => template;
+
+const PROMPTS = {
+  atsAnalysis: definePrompt<{ resumeText: string; jobDescription: string }>({
+    name: 'ats-analysis',
+    description: "Match score, keywords and recommendations",
+    versions: {
+      1: ({ resumeText, jobDescription }) => `
+        You are an ATS analyzer.
+        Resume: ${resumeText}
+        Job: ${jobDescription}
+        Output JSON with:
+        - match_score (0-100)
+        - missing_keywords: important job keywords absent from the resume
+        - keyword_density: the 10-15 most important job keywords, each with how many times it appears in the resume (count may be 0)
+        - formatting_issues: ATS parsing problems (tables, columns, missing sections, inconsistent dates, etc.)
+        - skills_gap: skills the job requires that the resume does not demonstrate
+        - recommendations: objects with priority (high/medium/low), suggestion, and location. The location must be a resume section name (Contact, Summary, Experience, Education, Skills) or a short exact quote of the resume line it refers to.
+      `
+    }
+  }),
+  resumeRewrite: definePrompt<{ resumeText: string; jobDescription: string; recommendations: AnalysisResult['recommendations']; missingKeywords: string[] }>({
+    name: 'resume-rewrite',
+    description: "Tailored resume variants",
+    versions: {
+      1: ({ resumeText, jobDescription, recommendations, missingKeywords }) => `
+        You are an expert resume writer. Rewrite the resume below for this job, once per variant.
+        Never invent employers, titles, dates, degrees or metrics that are not in the original.
+        Format each rewrite as Markdown: "# Name", then "## Section" headings and "- " bullets.
+
+        VARIANTS:
+        ${RESUME_VARIANTS.map(v => `- ${v.name}: ${v.focus}`).join("\n")}
+
+        ANALYSIS RECOMMENDATIONS:
+        ${recommendations.map(r => `- [${r.priority}] ${r.location}: ${r.suggestion}`).join("\n")}
+        MISSING KEYWORDS: ${missingKeywords.join(", ")}
+
+        Resume: ${resumeText}
+        Job: ${jobDescription}
+        Output JSON with 'versions' array of objects with name (exactly the variant name) and content.
+      `
+    }
+  }),
+  interviewQuestions: definePrompt<{ resumeText: string; jobDescription: string }>({
+    name: 'interview-questions',
+    description: "Practice questions for the role",
+    versions: {
+      1: ({ resumeText, jobDescription }) => `
+        Generate 5 interview questions (behavioral/technical) for this resume/job.
+        Resume: ${resumeText.substring(0, 500)}...
+        Job: ${jobDescription.substring(0, 500)}...
+        Output JSON with 'questions' array.
+      `
+    }
+  }),
+  answerGrading: definePrompt<{ question: InterviewQuestion; answer: string; jobDescription: string; mode: 'written' | 'verbal' }>({
+    name: 'answer-grading',
+    description: "Scores written and spoken answers",
+    versions: {
+      1: ({ question, answer, jobDescription, mode }) => `
+        You are an expert interview coach grading ${mode === 'written'
+          ? "a WRITTEN response"
+          : "a SPOKEN response. The answer is a speech-to-text transcript, so ignore punctuation and transcription slips and judge content, structure and clarity"}.
+
+        CONTEXT:
+        Job Description: ${jobDescription.substring(0, 1000)}...
+        QUESTION: "${question.question}" (${question.type})
+        CANDIDATE ANSWER: "${answer}"
+
+        TASK:
+        Grade the answer strictly. Provide a revised version that is stronger.
+
+        OUTPUT JSON:
+        {
+          "score": 85,
+          "strengths": ["Used STAR method", "Specific metrics"],
+          "improvements": ["Mention tools used", "Be more concise"],
+          "model_answer": "Revised version of the candidate's answer...",
+          "specific_feedback": "Good job, but..."
+        }
+      `
+    }
+  }),
+  audioTranscription: definePrompt<Record<string, never>>({
+    name: 'audio-transcription',
+    description: "Timed transcript of an uploaded answer",
+    versions: {
+      1: () => "Transcribe this interview answer verbatim, keeping filler words (um, uh, like, you know). Split it into segments at every pause, with start and end times in seconds."
+    }
+  }),
+  coverLetter: definePrompt<{ resumeText: string; jobDescription: string; tone: string; words: number; emphasis: string }>({
+    name: 'cover-letter',
+    description: "Full cover letter draft",
+    versions: {
+      1: ({ resumeText, jobDescription, tone, words, emphasis }) => `
+        You are an expert career coach writing a cover letter.
+        Tone: ${tone}. Length: about ${words} words. Emphasis: ${emphasis}.
+        Use only facts from the resume. Separate paragraphs with a blank line. Do not include placeholders like [Company Name]; infer names from the job description or omit them.
+
+        Resume: ${resumeText}
+        Job: ${jobDescription}
+      `
+    }
+  }),
+  coverLetterParagraph: definePrompt<{ resumeText: string; jobDescription: string; paragraphs: string[]; index: number; tone: string }>({
+    name: 'cover-letter-paragraph',
+    description: "Rewrites one cover letter paragraph",
+    versions: {
+      1: ({ resumeText, jobDescription, paragraphs, index, tone }) => `
+        Rewrite ONLY paragraph ${index + 1} of this cover letter so it is stronger and more specific, keeping the ${tone.toLowerCase()} tone and flow with the surrounding paragraphs.
+        Output just the new paragraph text, nothing else.
+
+        COVER LETTER:
+        ${paragraphs.map((p, i) => `[${i + 1}] ${p}`).join("\n\n")}
+
+        Resume: ${resumeText.substring(0, 2000)}
+        Job: ${jobDescription.substring(0, 2000)}
+      `
+    }
+  }),
+  candidateQuestions: definePrompt<{ resumeText: string; jobDescription: string; skillsGap: string[] }>({
+    name: 'candidate-questions',
+    description: "Questions to ask each interviewer",
+    versions: {
+      1: ({ resumeText, jobDescription, skillsGap }) => `
+        You are a career coach helping a candidate prepare strategic questions to ASK their interviewers.
+        Tailor them to this company and role: reference specifics from the job description, and use the candidate's skills gap to ask questions that address concerns proactively.
+
+        Job: ${jobDescription.substring(0, 3000)}
+        Candidate Resume: ${resumeText.substring(0, 1500)}
+        Skills Gap: ${skillsGap.join(", ") || "none identified"}
+
+        Write 3 questions for each interviewer type: ${INTERVIEWER_TYPES.join(", ")}.
+        Output JSON with 'questions' array of objects with interviewerType, question, context (why to ask it), goodSignal (what a good answer reveals) and badSignal (what a bad or evasive answer reveals).
+      `
+    }
+  }),
+  mockInterviewer: definePrompt<{ resumeText: string; jobDescription: string; questions: InterviewQuestion[]; conversation: TranscriptTurn[]; mustWrapUp: boolean }>({
+    name: 'mock-interviewer',
+    description: "The live interviewer's next turn",
+    versions: {
+      1: ({ resumeText, jobDescription, questions, conversation, mustWrapUp }) => `
+        You are a hiring manager conducting a live job interview. Stay in character and speak naturally, one question at a time, in 1-3 sentences.
+
+        Job: ${jobDescription.substring(0, 2000)}
+        Candidate Resume: ${resumeText.substring(0, 2000)}
+        Planned questions (adapt them, don't read verbatim):
+        ${questions.map(q => `- (${q.type}) ${q.question}`).join("\n")}
+
+        RULES:
+        - If the conversation is empty, greet the candidate briefly and ask your first question (action "ask").
+        - After each answer decide: ask a probing follow-up if the answer was vague, lacked specifics or results (action "follow_up", at most 2 per topic), or move on to a new question (action "ask").
+        - Cover about ${MOCK_INTERVIEW_MAX_QUESTIONS} main questions in total, then thank the candidate and close the interview (action "wrap_up").
+        ${mustWrapUp ? '- You are out of time: close the interview now (action "wrap_up").' : ''}
+
+        CONVERSATION SO FAR:
+        ${conversation.map(m => `${m.role === 'ai' ? 'Interviewer' : 'Candidate'}: ${m.text}`).join("\n") || "(none)"}
+
+        Output JSON with message and action.
+      `
+    }
+  }),
+  mockDebrief: definePrompt<{ jobDescription: string; transcript: TranscriptTurn[] }>({
+    name: 'mock-debrief',
+    description: "Hiring manager's post-interview write-up",
+    versions: {
+      1: ({ jobDescription, transcript }) => `
+        You are the hiring manager who just ran this interview. Evaluate the candidate honestly.
+        Job: ${jobDescription.substring(0, 2000)}
+
+        TRANSCRIPT (each turn prefixed with its index):
+        ${transcript.map((t, i) => `[${i}] ${t.role === 'ai' ? 'Interviewer' : 'Candidate'}: ${t.text}`).join("\n")}
+
+        Output JSON with:
+        - rubric: one entry per competency (${MOCK_INTERVIEW_COMPETENCIES.join(", ")}) with score 0-100 and a one-sentence comment
+        - annotations: for each Candidate turn, its turnIndex, a short coaching note and sentiment (positive/negative/neutral)
+        - strongestAnswer and weakestAnswer: the turnIndex of a Candidate turn and why
+        - verdict: 2-3 sentences in the voice of a hiring manager's debrief note
+        - recommendation: strong hire, hire, lean no hire or no hire
+      `
+    }
+  })
+};
+
+const promptVersionNumbers = (template: PromptTemplate<any>) =>
+  Object.keys(template.versions).map(Number).sort((a, b) => a - b);
+
+const activePromptVersion = (template: PromptTemplate<any>): number => {
+  const pinned = getAISettings().promptVersions[template.name];
+  const available = promptVersionNumbers(template);
+  return available.includes(pinned) ? pinned : available[available.length - 1];
+};
+
+const formatPromptVersion = (name: string, version: number) => `${name}@v${version}`;
+
+const currentPromptVersion = (template: PromptTemplate<any>) =>
+  formatPromptVersion(template.name, activePromptVersion(template));
+
+const renderPrompt = <V,>(template: PromptTemplate<V>, vars: V): RenderedPrompt => {
+  const version = activePromptVersion(template);
+  return { text: template.versions[version](vars), version: formatPromptVersion(template.name, version) };
+};
+
+// Scores are only comparable when the same prompt version produced them. Results saved before
+// versioning have no recorded version and are never treated as a match.
+const describePromptMismatch = (recorded: string | undefined, template: PromptTemplate<any>): string | null => {
+  const current = currentPromptVersion(template);
+  if (recorded === current) return null;
+  return recorded
+    ? `Scored with ${recorded}; new results use ${current}, so the two aren't directly comparable.`
+    : `Scored before prompt versioning; new results use ${current}, so the two aren't directly comparable.`;
+};
+
+// --- AI TASKS ---
+
+interface GradedAnswer {
+  feedback: AnswerFeedback;
+  promptVersion: string;
+}
+
+const gradeAnswer = async (
+  question: InterviewQuestion,
+  answer: string,
+  jobDescription: string,
+  mode: 'written' | 'verbal',
+  options?: AICallOptions
+): Promise<GradedAnswer> => {
+  const prompt = renderPrompt(PROMPTS.answerGrading, { question, answer, jobDescription, mode });
+  const feedback = await generateWithAI('grade-answer', prompt, ANSWER_FEEDBACK_SCHEMA, options);
+  return { feedback, promptVersion: prompt.version };
+};
+
+const readFileAsBase64 = (file: Blob): Promise<string> => new Promise((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve(String(reader.result).split(",")[1] ?? "");
+  reader.onerror = () => reject(reader.error);
+  reader.readAsDataURL(file);
+});
+
+// Used when there is no microphone: a prerecorded answer is transcribed with timings
+const transcribeAudio = async (file: File, options?: Pick<AICallOptions, 'signal'>): Promise<TranscriptSegment[]> => {
+  const result = await generateWithAI(
+    'transcribe',
+    renderPrompt(PROMPTS.audioTranscription, {}),
+    TRANSCRIPT_SCHEMA,
+    { ...options, attachments: [{ mimeType: file.type || "audio/wav", data: await readFileAsBase64(file) }] }
+  );
+  return result.segments;
+};
+
+// --- DOCUMENT PARSING ---
+
+const DOCX_MIME = "application/vnd.openxmlformats-officedocument.wordprocessingml.document";
+const ODT_MIME = "application/vnd.oasis.opendocument.text";
+
+// Reads a single file out of a zip archive (ODT is a zip with the body in content.xml)
+const readZipEntry = async (buffer: ArrayBuffer, entryName: string): Promise<string | null> => {
+  const view = new DataView(buffer);
+  const decoder = new TextDecoder();
+
+  // The end-of-central-directory record sits at the tail, before an optional comment
+  let eocd = -1;
+  for (let i = buffer.byteLength - 22; i >= Math.max(0, buffer.byteLength - 65557); i--) {
+    if (view.getUint32(i, true) === 0x06054b50) { eocd = i; break; }
+  }
+  if (eocd < 0) throw new Error("Not a valid zip archive");
+
+  const entryCount = view.getUint16(eocd + 10, true);
+  let offset = view.getUint32(eocd + 16, true);
+  for (let n = 0; n < entryCount; n++) {
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const name = decoder.decode(new Uint8Array(buffer, offset + 46, nameLength));
+
+    if (name === entryName) {
+      const dataStart = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+      const data = new Uint8Array(buffer, dataStart, compressedSize);
+      if (method === 0) return decoder.decode(data);
+      const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream("deflate-raw"));
+      return await new Response(stream).text();
+    }
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+  return null;
+};
+
+const extractOdtText = async (buffer: ArrayBuffer): Promise<string> => {
+  const xml = await readZipEntry(buffer, "content.xml");
+  if (!xml) throw new Error("ODT file has no content.xml");
+
+  const doc = new DOMParser().parseFromString(xml, "application/xml");
+  const lines: string[] = [];
+  const paragraphs = Array.from(doc.getElementsByTagName("*")).filter(
+    el => el.namespaceURI?.includes("opendocument:xmlns:text") && (el.localName === "p" || el.localName === "h")
+  );
+  paragraphs.forEach(el => {
+    let line = "";
+    el.childNodes.forEach(node => {
+      if (node.nodeType === Node.TEXT_NODE) line += node.textContent;
+      else if ((node as Element).localName === "tab") line += "\t";
+      else if ((node as Element).localName === "line-break") line += "\n";
+      else if ((node as Element).localName === "s") line += " ";
+      else line += node.textContent;
+    });
+    const inList = (el.parentNode as Element | null)?.localName === "list-item";
+    lines.push(inList ? `- ${line}` : line);
+  });
+  return lines.join("\n");
+};
+
+// Destinations whose content is metadata, not document text
+const RTF_SKIP_DESTINATIONS = new Set([
+  "fonttbl", "colortbl", "stylesheet", "info", "pict", "header", "footer", "headerl", "headerr",
+  "footerl", "footerr", "listtable", "listoverridetable", "rsidtbl", "generator", "xmlnstbl",
+  "themedata", "colorschememapping", "latentstyles", "datastore"
+]);
+
+const rtfToText = (rtf: string): string => {
+  const cp1252 = new TextDecoder("windows-1252");
+  const groupStack: boolean[] = [];
+  const tokens = /\\([a-z]{1,32})(-?\d{1,10})? ?|\\'([0-9a-f]{2})|\\([^a-z])|([{}])|[\r\n]+|(.)/gi;
+  let skipping = false;
+  let pendingFallbackChars = 0;
+  let out = "";
+  let match: RegExpExecArray | null;
+
+  while ((match = tokens.exec(rtf))) {
+    const [, word, param, hex, symbol, brace, char] = match;
+    if (brace === "{") { groupStack.push(skipping); continue; }
+    if (brace === "}") { skipping = groupStack.pop() ?? false; continue; }
+    if (word) {
+      if (RTF_SKIP_DESTINATIONS.has(word)) skipping = true;
+      else if (skipping) continue;
+      else if (word === "par" || word === "line" || word === "row") out += "\n";
+      else if (word === "tab" || word === "cell") out += "\t";
+      else if (word === "u" && param) {
+        const code = parseInt(param, 10);
+        out += String.fromCharCode(code < 0 ? code + 65536 : code);
+        // \uN is followed by an ANSI fallback character that must be dropped
+        pendingFallbackChars = 1;
+      }
+      continue;
+    }
+    if (symbol) {
+      if (symbol === "*") skipping = true;
+      else if (skipping) continue;
+      else if (symbol === "~") out += " ";
+      else if ("\\{}".includes(symbol)) out += symbol;
+      else if (symbol === "\n" || symbol === "\r") out += "\n";
+      continue;
+    }
+    if (skipping || (!hex && !char)) continue;
+    if (pendingFallbackChars > 0) { pendingFallbackChars--; continue; }
+    out += hex ? cp1252.decode(new Uint8Array([parseInt(hex, 16)])) : char;
+  }
+  return out.replace(/\n{3,}/g, "\n\n").trim();
+};
+
+const extractResumeText = async (file: File): Promise<string> => {
+  const extension = file.name.split(".").pop()?.toLowerCase() ?? "";
+
+  if (file.type.includes("pdf") || extension === "pdf") {
+    const pdf = await pdfjsLib.getDocument({ data: await file.arrayBuffer() }).promise;
+    let text = "";
+    for (let i = 1; i <= pdf.numPages; i++) {
+      const page = await pdf.getPage(i);
+      const content = await page.getTextContent();
+      // Keep line breaks so section headings survive for the structured parser
+      text += content.items.map((item: any) => item.str + (item.hasEOL ? "\n" : " ")).join("") + "\n";
+    }
+    return text;
+  }
+  if (file.type === DOCX_MIME || extension === "docx") {
+    const result = await mammoth.extractRawText({ arrayBuffer: await file.arrayBuffer() });
+    return result.value;
+  }
+  if (file.type === ODT_MIME || extension === "odt") return extractOdtText(await file.arrayBuffer());
+  if (file.type.includes("rtf") || extension === "rtf") return rtfToText(await file.text());
+  if (file.type.startsWith("text/") || extension === "txt" || extension === "md") return file.text();
+
+  throw new Error(`Unsupported file type${extension ? ` (.${extension})` : ""}. Please upload a PDF, DOCX, ODT, RTF or TXT file.`);
+};
+
+// --- DOCUMENT EXPORT ---
+
+type ExportFormat = 'pdf' | 'docx' | 'md' | 'txt';
+
+const EXPORT_FORMATS: { format: ExportFormat; label: string }[] = [
+  { format: 'pdf', label: "PDF" },
+  { format: 'docx', label: "Word (.docx)" },
+  { format: 'md', label: "Markdown" },
+  { format: 'txt', label: "Plain text" }
+];
+
+// Only PDF needs a library; it's fetched on the first PDF export instead of at startup
+const JSPDF_URL = "https://esm.sh/jspdf@2.5.1";
+
+// ATS parsers read a single column of real text best, so exports are only headings, bullets and paragraphs
+type ExportBlock =
+  | { kind: 'heading'; level: 1 | 2 | 3; text: string }
+  | { kind: 'bullet'; text: string }
+  | { kind: 'paragraph'; lines: string[] };
+
+const stripInlineMarkdown = (text: string) => text.replace(/(\*\*|__)(.+?)\1/g, "$2").replace(/`([^`]+)`/g, "$1");
+
+// Same line rules as SimpleMarkdownRenderer, so the file matches what the user reviewed
+const toExportBlocks = (content: string): ExportBlock[] => {
+  const blocks: ExportBlock[] = [];
+  let previousBlank = true;
+  content.split('\n').forEach(line => {
+    const trimmed = line.trim();
+    const heading = trimmed.match(/^(#{1,3}) (.*)$/);
+    const last = blocks[blocks.length - 1];
+    if (heading) blocks.push({ kind: 'heading', level: heading[1].length as 1 | 2 | 3, text: stripInlineMarkdown(heading[2]) });
+    else if (trimmed.startsWith('- ') || trimmed.startsWith('* ')) blocks.push({ kind: 'bullet', text: stripInlineMarkdown(trimmed.substring(2)) });
+    // Lines with no blank between them (an address, a sign-off) stay one paragraph
+    else if (trimmed && !previousBlank && last?.kind === 'paragraph') last.lines.push(stripInlineMarkdown(trimmed));
+    else if (trimmed) blocks.push({ kind: 'paragraph', lines: [stripInlineMarkdown(trimmed)] });
+    previousBlank = trimmed === '';
+  });
+  return blocks;
+};
+
+const toPlainText = (content: string) => toExportBlocks(content).map(block => {
+  if (block.kind === 'heading') return block.level === 2 ? `\n${block.text.toUpperCase()}` : block.text;
+  if (block.kind === 'bullet') return `- ${block.text}`;
+  return `\n${block.lines.join('\n')}`;
+}).join('\n').trim() + '\n';
+
+// "jane_doe.pdf" + "Staff Engineer" -> "jane_doe - Staff Engineer - Cover Letter.docx"
+const exportFileName = (fileName: string, jobTitle: string | undefined, documentLabel: string | null, extension: string) => {
+  const base = fileName.replace(/\.[^.]+$/, "") || "Resume";
+  const name = [base, jobTitle?.trim(), documentLabel].filter(Boolean).join(" - ");
+  return `${name.replace(/[\\/:*?"<>|]+/g, " ").replace(/\s+/g, " ").trim()}.${extension}`;
+};
+
+const renderPdf = async (blocks: ExportBlock[]): Promise<Blob> => {
+  const module = await import(/* @vite-ignore */ JSPDF_URL);
+  const jsPDF = module.jsPDF ?? module.default;
+  const doc = new jsPDF({ unit: "pt", format: "letter" });
+  const margin = 54;
+  const width = doc.internal.pageSize.getWidth() - margin * 2;
+  const bottom = doc.internal.pageSize.getHeight() - margin;
+  let y = margin;
+
+  const write = (text: string, size: number, style: 'normal' | 'bold', indent = 0, bullet = false) => {
+    doc.setFont("helvetica", style);
+    doc.setFontSize(size);
+    const lineHeight = size * 1.3;
+    (doc.splitTextToSize(text, width - indent) as string[]).forEach((line, i) => {
+      if (y + lineHeight > bottom) { doc.addPage(); y = margin; }
+      if (bullet && i === 0) doc.text("•", margin + indent - 10, y + size);
+      doc.text(line, margin + indent, y + size);
+      y += lineHeight;
+    });
+  };
+
+  blocks.forEach(block => {
+    if (block.kind === 'heading') {
+      y += block.level === 1 ? 0 : 8;
+      write(block.level === 2 ? block.text.toUpperCase() : block.text, block.level === 1 ? 18 : block.level === 2 ? 12 : 11, 'bold');
+      y += 2;
+    } else if (block.kind === 'bullet') {
+      write(block.text, 10.5, 'normal', 14, true);
+      y += 1;
+    } else {
+      block.lines.forEach(line => write(line, 10.5, 'normal'));
+      y += 8;
+    }
+  });
+  return doc.output("blob");
+};
+
+const CRC32_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+const crc32 = (data: Uint8Array) => {
+  let crc = 0xffffffff;
+  for (const byte of data) crc = CRC32_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+// The counterpart of readZipEntry: an uncompressed ("stored") archive, which every zip reader accepts
+const writeZip = (entries: { name: string; content: string }[], type: string): Blob => {
+  const encoder = new TextEncoder();
+  const parts: Uint8Array[] = [];
+  const central: Uint8Array[] = [];
+  let offset = 0;
+
+  entries.forEach(entry => {
+    const name = encoder.encode(entry.name);
+    const data = encoder.encode(entry.content);
+    const crc = crc32(data);
+
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, 0x04034b50, true);
+    local.setUint16(4, 20, true);
+    local.setUint16(6, 0x0800, true); // names are UTF-8
+    local.setUint32(14, crc, true);
+    local.setUint32(18, data.length, true);
+    local.setUint32(22, data.length, true);
+    local.setUint16(26, name.length, true);
+    parts.push(new Uint8Array(local.buffer), name, data);
+
+    const header = new DataView(new ArrayBuffer(46));
+    header.setUint32(0, 0x02014b50, true);
+    header.setUint16(4, 20, true);
+    header.setUint16(6, 20, true);
+    header.setUint16(8, 0x0800, true);
+    header.setUint32(16, crc, true);
+    header.setUint32(20, data.length, true);
+    header.setUint32(24, data.length, true);
+    header.setUint16(28, name.length, true);
+    header.setUint32(42, offset, true);
+    central.push(new Uint8Array(header.buffer), name);
+
+    offset += 30 + name.length + data.length;
+  });
+
+  const centralSize = central.reduce((sum, part) => sum + part.length, 0);
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054b50, true);
+  end.setUint16(8, entries.length, true);
+  end.setUint16(10, entries.length, true);
+  end.setUint32(12, centralSize, true);
+  end.setUint32(16, offset, true);
+  return new Blob([...parts, ...central, new Uint8Array(end.buffer)], { type });
+};
+
+const escapeXml = (text: string) => text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+const WORD_NS = 'xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"';
+
+const DOCX_STYLES = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:styles ${WORD_NS}>
+<w:docDefaults><w:rPrDefault><w:rPr><w:rFonts w:ascii="Calibri" w:hAnsi="Calibri" w:cs="Calibri"/><w:sz w:val="22"/></w:rPr></w:rPrDefault><w:pPrDefault><w:pPr><w:spacing w:after="120"/></w:pPr></w:pPrDefault></w:docDefaults>
+<w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/></w:style>
+<w:style w:type="paragraph" w:styleId="Heading1"><w:name w:val="heading 1"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:pPr><w:outlineLvl w:val="0"/></w:pPr><w:rPr><w:b/><w:sz w:val="36"/></w:rPr></w:style>
+<w:style w:type="paragraph" w:styleId="Heading2"><w:name w:val="heading 2"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:pPr><w:spacing w:before="240" w:after="60"/><w:outlineLvl w:val="1"/></w:pPr><w:rPr><w:b/><w:caps/><w:sz w:val="24"/></w:rPr></w:style>
+<w:style w:type="paragraph" w:styleId="Heading3"><w:name w:val="heading 3"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:pPr><w:spacing w:before="120" w:after="40"/><w:outlineLvl w:val="2"/></w:pPr><w:rPr><w:b/></w:rPr></w:style>
+<w:style w:type="paragraph" w:styleId="ListBullet"><w:name w:val="List Bullet"/><w:basedOn w:val="Normal"/><w:pPr><w:spacing w:after="40"/></w:pPr></w:style>
+</w:styles>`;
+
+const DOCX_NUMBERING = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:numbering ${WORD_NS}>
+<w:abstractNum w:abstractNumId="0"><w:lvl w:ilvl="0"><w:start w:val="1"/><w:numFmt w:val="bullet"/><w:lvlText w:val="•"/><w:lvlJc w:val="left"/><w:pPr><w:ind w:left="360" w:hanging="360"/></w:pPr></w:lvl></w:abstractNum>
+<w:num w:numId="1"><w:abstractNumId w:val="0"/></w:num>
+</w:numbering>`;
+
+const renderDocx = (blocks: ExportBlock[]): Blob => {
+  const run = (text: string) => `<w:r><w:t xml:space="preserve">${escapeXml(text)}</w:t></w:r>`;
+  const paragraph = (style: string | null, runs: string, properties = "") =>
+    `<w:p>${style ? `<w:pPr><w:pStyle w:val="${style}"/>${properties}</w:pPr>` : ""}${runs}</w:p>`;
+  const body = blocks.map(block => {
+    if (block.kind === 'heading') return paragraph(`Heading${block.level}`, run(block.text));
+    // Numbering repeated on the paragraph, since some parsers don't resolve it through the style
+    if (block.kind === 'bullet') return paragraph("ListBullet", run(block.text), '<w:numPr><w:ilvl w:val="0"/><w:numId w:val="1"/></w:numPr>');
+    return paragraph(null, block.lines.map(run).join("<w:r><w:br/></w:r>"));
+  }).join("");
+
+  return writeZip([
+    {
+      name: "[Content_Types].xml",
+      content: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/><Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/><Override PartName="/word/numbering.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.numbering+xml"/></Types>`
+    },
+    {
+      name: "_rels/.rels",
+      content: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/></Relationships>`
+    },
+    {
+      name: "word/_rels/document.xml.rels",
+      content: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/><Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/numbering" Target="numbering.xml"/></Relationships>`
+    },
+    { name: "word/styles.xml", content: DOCX_STYLES },
+    { name: "word/numbering.xml", content: DOCX_NUMBERING },
+    {
+      name: "word/document.xml",
+      content: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:document ${WORD_NS}><w:body>${body}<w:sectPr><w:pgSz w:w="12240" w:h="15840"/><w:pgMar w:top="1080" w:right="1080" w:bottom="1080" w:left="1080" w:header="720" w:footer="720" w:gutter="0"/></w:sectPr></w:body></w:document>`
+    }
+  ], DOCX_MIME);
+};
+
+const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Revoking right away can cancel the download in some browsers
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+const exportDocument = async (content: string, format: ExportFormat, fileName: string) => {
+  const blocks = toExportBlocks(content);
+  const blob =
+    format === 'pdf' ? await renderPdf(blocks) :
+    format === 'docx' ? renderDocx(blocks) :
+    new Blob([format === 'md' ? content.trim() + '\n' : toPlainText(content)], { type: format === 'md' ? "text/markdown;charset=utf-8" : "text/plain;charset=utf-8" });
+  downloadBlob(blob, fileName);
+};
+
+// --- DELIVERY METRICS ---
+
+const FILLER_WORDS = ["um", "uh", "erm", "ah", "hmm", "like", "you know", "basically", "actually", "literally", "sort of", "kind of", "i mean"];
+const LONG_PAUSE_SECONDS = 3;
+
+const countFillers = (transcript: string): Record<string, number> => {
+  const lower = transcript.toLowerCase();
+  const counts: Record<string, number> = {};
+  FILLER_WORDS.forEach(filler => {
+    const matches = lower.match(new RegExp(`\\b${filler}\\b`, "g"));
+    if (matches) counts[filler] = matches.length;
+  });
+  return counts;
+};
+
+const computeDeliveryMetrics = (segments: TranscriptSegment[], durationSeconds?: number): DeliveryMetrics => {
+  const transcript = segments.map(s => s.text).join(" ");
+  const wordCount = transcript.split(/\s+/).filter(Boolean).length;
+  const duration = durationSeconds ?? (segments.length ? segments[segments.length - 1].end : 0);
+  const pauses = segments.slice(1).map((s, i) => s.start - segments[i].end);
+  const fillerCounts = countFillers(transcript);
+
+  return {
+    durationSeconds: Math.round(duration),
+    wordCount,
+    wordsPerMinute: duration > 0 ? Math.round(wordCount / (duration / 60)) : 0,
+    fillerCounts,
+    totalFillers: Object.values(fillerCounts).reduce((sum, n) => sum + n, 0),
+    longPauses: pauses.filter(p => p >= LONG_PAUSE_SECONDS).length,
+    longestPauseSeconds: Math.round(Math.max(0, ...pauses) * 10) / 10
+  };
+};
+
+// Accepts "[m:ss] text" lines so a scripted answer can be replayed with timings
+const parseTimedTranscript = (text: string, durationSeconds?: number): TranscriptSegment[] => {
+  const timed = text.split(/\r?\n/).map(line => line.match(/^\s*\[(?:(\d+):)?(\d{1,2}):(\d{2})\]\s*(.*)$/)).filter(Boolean) as RegExpMatchArray[];
+  if (timed.length === 0) return [{ start: 0, end: durationSeconds ?? 0, text: text.trim() }];
+
+  const starts = timed.map(m => Number(m[1] ?? 0) * 3600 + Number(m[2]) * 60 + Number(m[3]));
+  return timed.map((m, i) => {
+    const words = m[4].split(/\s+/).filter(Boolean).length;
+    // Without explicit end times assume ~150 wpm speech, capped by the next line
+    const spoken = starts[i] + words / 2.5;
+    const end = i + 1 < starts.length ? Math.min(spoken, starts[i + 1]) : Math.max(spoken, durationSeconds ?? 0);
+    return { start: starts[i], end, text: m[4] };
+  });
+};
+
+const getAudioDuration = (file: File): Promise<number | undefined> => new Promise(resolve => {
+  const audio = new Audio();
+  const url = URL.createObjectURL(file);
+  audio.preload = "metadata";
+  audio.onloadedmetadata = () => { URL.revokeObjectURL(url); resolve(Number.isFinite(audio.duration) ? audio.duration : undefined); };
+  audio.onerror = () => { URL.revokeObjectURL(url); resolve(undefined); };
+  audio.src = url;
+});
+
+// --- SESSION SUMMARY ---
+
+interface ImprovementTheme {
+  theme: string;
+  count: number;
+  examples: string[];
+}
+
+interface SessionSummary {
+  matchScore: number | null;
+  answerCount: number;
+  averageScore: number | null;
+  scoresByType: { type: InterviewQuestion['type']; average: number; count: number }[];
+  themes: ImprovementTheme[];
+  questionsToAsk: CandidateQuestion[];
+  // Grading prompt versions behind the scores; more than one means they aren't strictly comparable
+  gradingVersions: string[];
+}
+
+// Feedback is free text, so recurring advice is grouped by keyword; the first matching theme wins
+const IMPROVEMENT_THEMES: { theme: string; pattern: RegExp }[] = [
+  { theme: "Quantify your impact", pattern: /quantif|metric|\bnumbers?\b|measur|percent|%|\bimpact\b/i },
+  { theme: "Follow the STAR structure", pattern: /\bstar\b|structure|situation|\bresults?\b|outcome/i },
+  { theme: "Be more concise", pattern: /concise|shorter|brief|less time|rambl|background|too long|to the point/i },
+  { theme: "Show your own contribution", pattern: /ownership|your (own )?role|contribution|personally|\bi\b.{0,10}instead|initiative|leadership/i },
+  { theme: "Go deeper technically", pattern: /technical|depth|deeper|trade-?offs?|architecture|scal(e|ing|ability)/i },
+  { theme: "Use specific examples", pattern: /specific|concrete|example|detail|vague|generic/i },
+  { theme: "Connect it to the role", pattern: /the role|the company|job description|position|relevan|align|mission/i },
+  { theme: "Reflect on what you learned", pattern: /learn|reflect|takeaway|differently|growth/i },
+  { theme: "Polish your delivery", pattern: /confiden|filler|pace|tone|hesitat|clarity/i }
+];
+
+const findImprovementThemes = (improvements: string[]): ImprovementTheme[] => {
+  const themes = new Map<string, ImprovementTheme>();
+  improvements.map(i => i.trim()).filter(Boolean).forEach(improvement => {
+    // Advice that fits no theme still counts when the same words come back
+    const theme = IMPROVEMENT_THEMES.find(t => t.pattern.test(improvement))?.theme ?? improvement.replace(/[.!]+$/, "");
+    const key = theme.toLowerCase();
+    const entry = themes.get(key) ?? { theme, count: 0, examples: [] };
+    entry.count++;
+    if (!entry.examples.includes(improvement)) entry.examples.push(improvement);
+    themes.set(key, entry);
+  });
+  return [...themes.values()].sort((a, b) => b.count - a.count);
+};
+
+const summarizeSession = (session: SessionData): SessionSummary => {
+  const answers = [
+    ...session.writtenAnswers.map(a => ({ ...a, mode: 'written' as const })),
+    ...session.verbalAnswers.map(a => ({ ...a, mode: 'verbal' as const }))
+  ].filter(a => a.feedback && session.questions[a.questionIndex]);
+  const average = (scores: number[]) => scores.length ? Math.round(scores.reduce((sum, s) => sum + s, 0) / scores.length) : null;
+
+  const scoresByType = QUESTION_TYPES.map(type => {
+    const scores = answers.filter(a => session.questions[a.questionIndex].type === type).map(a => a.feedback!.score);
+    return { type, average: average(scores) ?? 0, count: scores.length };
+  }).filter(t => t.count > 0);
+
+  const mockNotes = (session.mockInterviewFeedback?.annotations ?? []).filter(a => a.sentiment === 'negative').map(a => a.note);
+  const starred = session.candidateQuestions.filter(q => q.isStarred);
+
+  return {
+    matchScore: session.analysis?.match_score ?? null,
+    answerCount: answers.length,
+    averageScore: average(answers.map(a => a.feedback!.score)),
+    scoresByType,
+    themes: findImprovementThemes([...answers.flatMap(a => a.feedback!.improvements), ...mockNotes]),
+    questionsToAsk: starred.length > 0 ? starred : session.candidateQuestions,
+    gradingVersions: [...new Set(answers.map(a => a.promptVersion).filter((v): v is string => !!v))]
+  };
+};
+
+// A self-contained page (inline styles, no scripts) that prints cleanly and opens offline
+const renderPrepPackHtml = (session: SessionData, summary: SessionSummary) => {
+  const e = escapeXml;
+  const role = [session.jobTitle, session.company].filter(Boolean).join(" at ") || "Your interview";
+  const section = (title: string, body: string) => body ? `<section><h2>${e(title)}</h2>${body}</section>` : "";
+  const list = (items: string[]) => items.length ? `<ul>${items.map(i => `<li>${i}</li>`).join("")}</ul>` : "";
+
+  const glance = [
+    summary.matchScore !== null && `<div class="stat"><b>${summary.matchScore}%</b>Resume match</div>`,
+    summary.averageScore !== null && `<div class="stat"><b>${summary.averageScore}</b>Average answer score</div>`,
+    `<div class="stat"><b>${summary.answerCount}</b>Answers practiced</div>`,
+    session.mockInterviewFeedback && `<div class="stat"><b>${e(session.mockInterviewFeedback.recommendation)}</b>Mock interview</div>`
+  ].filter(Boolean).join("");
+
+  const fit = session.analysis ? [
+    session.analysis.missing_keywords.length ? `<p><strong>Work these in:</strong> ${e(session.analysis.missing_keywords.join(", "))}</p>` : "",
+    session.analysis.skills_gap.length ? `<p><strong>Be ready to address:</strong> ${e(session.analysis.skills_gap.join(", "))}</p>` : ""
+  ].join("") : "";
+
+  const scores = summary.scoresByType.length
+    ? `<table><tr><th>Question type</th><th>Answers</th><th>Average score</th></tr>${summary.scoresByType.map(t =>
+        `<tr><td>${e(t.type)}</td><td>${t.count}</td><td>${t.average}</td></tr>`).join("")}</table>`
+    : "";
+
+  const themes = list(summary.themes.slice(0, 5).map(t =>
+    `<strong>${e(t.theme)}</strong>${t.count > 1 ? ` <span class="muted">(${t.count}×)</span>` : ""}<br><span class="muted">${e(t.examples[0])}</span>`));
+
+  const practiced = session.questions.map((q, index) => {
+    const graded = [session.writtenAnswers.find(a => a.questionIndex === index), session.verbalAnswers.find(a => a.questionIndex === index)]
+      .map(a => a?.feedback).filter((f): f is AnswerFeedback => !!f);
+    if (graded.length === 0) return "";
+    const best = graded.reduce((a, b) => b.score > a.score ? b : a);
+    return `<div class="question"><p><strong>${e(q.question)}</strong> <span class="muted">${e(q.type)} · best score ${best.score}</span></p>${list([
+      ...best.strengths.slice(0, 1).map(s => `Keep: ${e(s)}`),
+      ...best.improvements.slice(0, 1).map(i => `Fix: ${e(i)}`)
+    ])}</div>`;
+  }).join("");
+
+  const questionsToAsk = list(summary.questionsToAsk.map(q => `${e(q.question)} <span class="muted">(${e(q.interviewerType)})</span>`));
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${e(`Interview Prep Pack - ${role}`)}</title>
+<style>
+  body { font-family: Helvetica, Arial, sans-serif; color: #111827; max-width: 760px; margin: 40px auto; padding: 0 24px; line-height: 1.5; font-size: 14px; }
+  h1 { font-size: 26px; margin: 0; }
+  h2 { font-size: 15px; text-transform: uppercase; letter-spacing: 0.05em; color: #374151; border-bottom: 1px solid #e5e7eb; padding-bottom: 4px; margin-top: 28px; }
+  .muted { color: #6b7280; font-size: 12px; }
+  .stats { display: flex; gap: 12px; margin-top: 20px; }
+  .stat { flex: 1; border: 1px solid #e5e7eb; border-radius: 8px; padding: 10px; font-size: 12px; color: #6b7280; }
+  .stat b { display: block; font-size: 20px; color: #111827; text-transform: capitalize; }
+  table { width: 100%; border-collapse: collapse; }
+  th, td { text-align: left; padding: 6px 4px; border-bottom: 1px solid #f3f4f6; text-transform: capitalize; }
+  ul { padding-left: 20px; margin: 6px 0; }
+  li { margin-bottom: 6px; }
+  .question { margin-bottom: 14px; }
+  .question p { margin: 0; }
+  section, .question, li { break-inside: avoid; }
+  @page { margin: 16mm; }
+  @media print { body { margin: 0; } }
+</style>
+</head>
+<body>
+<h1>Interview Prep Pack</h1>
+<div class="muted">${e(role)} · ${e(new Date().toLocaleDateString())}</div>
+<div class="stats">${glance}</div>
+${section("Resume fit", fit)}
+${section("Answer scores by question type", scores)}
+${section("Focus areas", themes)}
+${section("Questions you practiced", practiced)}
+${section("Mock interview verdict", session.mockInterviewFeedback ? `<p>${e(session.mockInterviewFeedback.verdict)}</p>` : "")}
+${section("Questions to ask", questionsToAsk)}
+</body>
+</html>
+`;
+};
+
+// Prints through a hidden frame so popup blockers don't get involved; "Save as PDF" is in every print dialog
+const printHtml = (html: string) => {
+  const frame = document.createElement("iframe");
+  frame.style.cssText = "position:fixed;width:0;height:0;border:0;";
+  frame.srcdoc = html;
+  frame.onload = () => {
+    frame.contentWindow?.focus();
+    frame.contentWindow?.print();
+    setTimeout(() => frame.remove(), 1000);
+  };
+  document.body.appendChild(frame);
+};
+
+// --- APPLICATION TRACKER ---
+
+const APPLICATION_STATUSES: ApplicationStatus[] = ['saved', 'applied', 'phone-screen', 'onsite', 'offer', 'rejected'];
+
+const APPLICATION_STATUS_LABELS: Record<ApplicationStatus, string> = {
+  'saved': "Saved",
+  'applied': "Applied",
+  'phone-screen': "Phone screen",
+  'onsite': "Onsite",
+  'offer': "Offer",
+  'rejected': "Rejected"
+};
+
+const APPLICATION_STATUS_STYLES: Record<ApplicationStatus, string> = {
+  'saved': "bg-gray-100 text-gray-700",
+  'applied': "bg-blue-50 text-primary",
+  'phone-screen': "bg-indigo-50 text-indigo-700",
+  'onsite': "bg-purple-50 text-purple-700",
+  'offer': "bg-green-100 text-green-800",
+  'rejected': "bg-red-50 text-red-700"
+};
+
+const createApplication = (createdAt: number): JobApplication => ({
+  status: 'saved',
+  statusDates: { saved: createdAt },
+  notes: "",
+  submittedResume: null,
+  submittedCoverLetter: null
+});
+
+const snapshotSubmittedDocuments = (session: SessionData, submittedAt: number): Pick<JobApplication, 'submittedResume' | 'submittedCoverLetter'> => {
+  const resume = session.optimizedResumes[session.selectedResumeIndex];
+  const letter = session.coverLetters[session.selectedCoverLetterIndex];
+  return {
+    submittedResume: resume
+      ? { versionId: resume.id, name: resume.name, content: resume.content, submittedAt }
+      : session.resumeText ? { versionId: null, name: "Original resume", content: session.resumeText, submittedAt } : null,
+    submittedCoverLetter: letter ? { versionId: letter.id, name: letter.name, content: letter.content, submittedAt } : null
+  };
+};
+
+const setApplicationStatus = (session: SessionData, status: ApplicationStatus, at = Date.now()): SessionData => {
+  const current = session.application;
+  // The first move past "saved" means something was sent, so record what was selected at that point
+  const submitted = status !== 'saved' && !current.submittedResume ? snapshotSubmittedDocuments(session, at) : {};
+  return {
+    ...session,
+    application: {
+      ...current,
+      ...submitted,
+      status,
+      statusDates: { ...current.statusDates, [status]: current.statusDates[status] ?? at }
+    }
+  };
+};
+
+// Whether a submitted copy still matches the version it came from in the session
+const describeSubmittedDocument = (submitted: SubmittedDocument, versions: { id: string; content: string }[]) => {
+  if (submitted.versionId === null) return null;
+  const version = versions.find(v => v.id === submitted.versionId);
+  if (!version) return "Since replaced in the session";
+  return version.content === submitted.content ? null : "Edited in the session since it was sent";
+};
+
+interface ApplicationGroup {
+  company: string;
+  roles: { role: string; sessions: SessionData[] }[];
+}
+
+// Company and role names come from free text, so group them case-insensitively. Newest first by
+// creation, not by update, so cards don't jump around while they're being edited.
+const groupApplications = (sessions: SessionData[]): ApplicationGroup[] => {
+  const companies = new Map<string, ApplicationGroup>();
+  [...sessions].sort((a, b) => b.timestamp - a.timestamp).forEach(session => {
+    const company = session.company?.trim() || "Unknown company";
+    const role = session.jobTitle?.trim() || "Untitled role";
+    const group = companies.get(company.toLowerCase()) ?? { company, roles: [] };
+    const entry = group.roles.find(r => r.role.toLowerCase() === role.toLowerCase());
+    if (entry) entry.sessions.push(session);
+    else group.roles.push({ role, sessions: [session] });
+    companies.set(company.toLowerCase(), group);
+  });
+  return [...companies.values()];
+};
+
+const toDateInputValue = (timestamp?: number) => {
+  if (!timestamp) return "";
+  const date = new Date(timestamp);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}-${String(date.getDate()).padStart(2, "0")}`;
+};
+
+// Midday, so the date survives a move across time zones
+const fromDateInputValue = (value: string) => new Date(`${value}T12:00:00`).getTime();
+
+// --- FIT COMPARISON ---
+
+// One resume scored against many postings. Each analysis is a full AI call, so only a few run at once.
+const BATCH_ANALYSIS_CONCURRENCY = 3;
+const JOB_SEPARATOR = /^\s*-{3,}\s*$/m;
+
+interface FitComparisonJob {
+  id: string;
+  title: string;
+  company: string;
+  location: string;
+  url?: string;
+  description: string;
+  status: 'pending' | 'running' | 'done' | 'failed';
+  analysis: AnalysisResult | null;
+  promptVersion?: string;
+  error?: string;
+}
+
+// Runs `worker` over the items with at most `limit` in flight; workers handle their own errors
+const runWithConcurrency = async <T,>(items: T[], limit: number, worker: (item: T) => Promise<void>) => {
+  let next = 0;
+  const lanes = Array.from({ length: Math.min(limit, items.length) }, async () => {
+    while (next < items.length) await worker(items[next++]);
+  });
+  await Promise.all(lanes);
+};
+
+const createComparisonJob = (description: string, details: Partial<Pick<FitComparisonJob, 'title' | 'company' | 'location' | 'url'>> = {}): FitComparisonJob => ({
+  id: crypto.randomUUID(),
+  // Pasted postings usually open with the job title
+  title: details.title || description.trim().split('\n')[0].trim().slice(0, 80),
+  company: details.company ?? "",
+  location: details.location ?? "",
+  url: details.url,
+  description: description.trim(),
+  status: 'pending',
+  analysis: null
+});
+
+const splitJobDescriptions = (text: string) => text.split(JOB_SEPARATOR).map(d => d.trim()).filter(d => d.length > 0);
+
+const rankComparisonJobs = (jobs: FitComparisonJob[]) => [...jobs].sort((a, b) =>
+  (b.analysis?.match_score ?? -1) - (a.analysis?.match_score ?? -1));
+
+// Gaps named by more than one posting are the ones worth closing first
+const findRecurringGaps = (analyses: AnalysisResult[]) => {
+  const counts = new Map<string, { term: string; count: number }>();
+  analyses.forEach(analysis => {
+    // Count each gap once per posting, even when it's both a missing keyword and a skills gap
+    const terms = new Map<string, string>();
+    [...analysis.missing_keywords, ...analysis.skills_gap].forEach(t => {
+      const key = t.trim().toLowerCase();
+      if (key && !terms.has(key)) terms.set(key, t.trim());
+    });
+    terms.forEach((term, key) => {
+      const entry = counts.get(key) ?? { term, count: 0 };
+      entry.count++;
+      counts.set(key, entry);
+    });
+  });
+  return [...counts.values()].filter(g => g.count > 1).sort((a, b) => b.count - a.count);
+};
+
+// --- PROGRESS ANALYTICS ---
+
+// Scores from different prompt versions aren't comparable, so trends and averages are always
+// scoped to one analysis version and one grading version. Streaks count practice of any kind.
+const UNVERSIONED = "unversioned";
+
+interface ScorePoint {
+  at: number;
+  score: number;
+  version: string;
+  label: string;
+}
+
+interface PracticedAnswer extends ScorePoint {
+  type: InterviewQuestion['type'];
+  improvements: string[];
+}
+
+const collectMatchScores = (sessions: SessionData[]): ScorePoint[] => sessions
+  .filter(s => s.analysis)
+  .map(s => ({
+    at: s.timestamp,
+    score: s.analysis!.match_score,
+    version: s.promptVersions.analysis ?? UNVERSIONED,
+    label: [s.jobTitle, s.company].filter(Boolean).join(" at ") || s.fileName || "Untitled session"
+  }))
+  .sort((a, b) => a.at - b.at);
+
+const collectAnswers = (sessions: SessionData[], drillAttempts: DrillAttempt[]): PracticedAnswer[] => [
+  ...sessions.flatMap(s => [...s.writtenAnswers, ...s.verbalAnswers].flatMap(a => {
+    const question = s.questions[a.questionIndex];
+    if (!a.feedback || !question) return [];
+    return [{
+      at: a.answeredAt,
+      score: a.feedback.score,
+      version: a.promptVersion ?? UNVERSIONED,
+      label: question.question,
+      type: question.type,
+      improvements: a.feedback.improvements
+    }];
+  })),
+  ...drillAttempts.map(a => ({
+    at: a.answeredAt,
+    score: a.feedback.score,
+    version: a.promptVersion,
+    label: a.question.question,
+    type: a.question.type,
+    improvements: a.feedback.improvements
+  }))
+].sort((a, b) => a.at - b.at);
+
+// The current version first when there is data for it, then the rest by how much data they have
+const listScoreVersions = (points: ScorePoint[], current: string) => {
+  const counts = new Map<string, number>();
+  points.forEach(p => counts.set(p.version, (counts.get(p.version) ?? 0) + 1));
+  return [...counts.entries()]
+    .map(([version, count]) => ({ version, count }))
+    .sort((a, b) => Number(b.version === current) - Number(a.version === current) || b.count - a.count);
+};
+
+const averageScore = (points: ScorePoint[]) =>
+  points.length ? Math.round(points.reduce((sum, p) => sum + p.score, 0) / points.length) : 0;
+
+// The later half of the points against the earlier half; too few points say nothing either way
+const scoreChange = (points: ScorePoint[]): number | null => {
+  if (points.length < 4) return null;
+  const half = Math.floor(points.length / 2);
+  return averageScore(points.slice(-half)) - averageScore(points.slice(0, half));
+};
+
+const averageAnswerScoresByType = (answers: PracticedAnswer[]) => QUESTION_TYPES.map(type => {
+  const ofType = answers.filter(a => a.type === type);
+  return { type, count: ofType.length, average: averageScore(ofType), change: scoreChange(ofType) };
+}).filter(t => t.count > 0);
+
+const shiftDayKey = (key: string, days: number) => {
+  const [year, month, day] = key.split("-").map(Number);
+  return toDateInputValue(new Date(year, month - 1, day + days).getTime());
+};
+
+const dailyAverageScores = (answers: PracticedAnswer[]): ScorePoint[] => {
+  const byDay = new Map<string, PracticedAnswer[]>();
+  answers.forEach(a => {
+    const key = toDateInputValue(a.at);
+    byDay.set(key, [...(byDay.get(key) ?? []), a]);
+  });
+  return [...byDay.entries()].map(([key, dayAnswers]) => ({
+    at: fromDateInputValue(key),
+    score: averageScore(dayAnswers),
+    version: dayAnswers[0].version,
+    label: `${dayAnswers.length} ${dayAnswers.length === 1 ? "answer" : "answers"}`
+  })).sort((a, b) => a.at - b.at);
+};
+
+// A streak is still alive until a whole day passes without practice
+const practiceStreaks = (timestamps: number[], now = Date.now()) => {
+  const days = new Set(timestamps.map(toDateInputValue));
+  const today = toDateInputValue(now);
+  let current = 0;
+  for (let key = days.has(today) ? today : shiftDayKey(today, -1); days.has(key); key = shiftDayKey(key, -1)) current++;
+
+  let longest = 0;
+  days.forEach(key => {
+    if (days.has(shiftDayKey(key, -1))) return;
+    let length = 0;
+    for (let k = key; days.has(k); k = shiftDayKey(k, 1)) length++;
+    longest = Math.max(longest, length);
+  });
+  return { current, longest, days };
+};
+
+// --- QUESTION BANK ---
+
+// Every question from saved sessions, with near-duplicates folded into one entry, scheduled for
+// review SM-2 style: an answer below the pass mark brings the question back the next day, and
+// each passing answer pushes it further out.
+const REVIEW_PASS_SCORE = 80;
+const FAILED_REVIEW_INTERVAL_DAYS = 1;
+const PASSED_REVIEW_INTERVAL_DAYS = [3, 7];
+const INITIAL_EASE = 2.5;
+const MIN_EASE = 1.3;
+const QUESTION_SIMILARITY_THRESHOLD = 0.6;
+const DAILY_DRILL_SIZE = 5;
+
+const SKILL_TAGS: { skill: string; pattern: RegExp }[] = [
+  { skill: "Leadership", pattern: /\blead|mentor|manag(e|ed|ing)\b|influenc|delegat/i },
+  { skill: "Conflict", pattern: /conflict|disagree|difficult (person|colleague|coworker|stakeholder|customer)|push ?back|tension/i },
+  { skill: "Communication", pattern: /communicat|explain|present|non-?technical|persuad/i },
+  { skill: "Collaboration", pattern: /teammate|collaborat|cross-functional|stakeholder|work(ed)? with/i },
+  { skill: "Prioritization", pattern: /priorit|deadline|competing|trade-?off|time management|pressure/i },
+  { skill: "Problem solving", pattern: /problem|debug|troubleshoot|root cause|obstacle|challeng/i },
+  { skill: "System design", pattern: /design|architect|scal(e|ing|ab)|distributed|system/i },
+  { skill: "Learning from failure", pattern: /fail|mistake|went wrong|learn|feedback/i },
+  { skill: "Ownership", pattern: /initiative|ownership|above and beyond|proactive/i },
+  { skill: "Data & metrics", pattern: /\bdata\b|metric|measur|analy[sz]|kpi|a\/b/i },
+  { skill: "Customer focus", pattern: /customer|client|\busers?\b/i },
+  { skill: "Adaptability", pattern: /ambigu|adapt|unfamiliar|quickly|new (technology|tool|domain|team)/i }
+];
+
+interface QuestionAttempt {
+  score: number;
+  answeredAt: number;
+  source: 'written' | 'verbal' | 'drill';
+}
+
+interface ReviewSchedule {
+  repetitions: number;
+  intervalDays: number;
+  ease: number;
+  // Local YYYY-MM-DD; null until the question has been answered once
+  dueDay: string | null;
+  lastScore: number | null;
+}
+
+interface BankQuestion {
+  // Text of the oldest copy, so the entry keeps its identity as sessions are added
+  key: string;
+  question: InterviewQuestion;
+  skills: string[];
+  // From the newest session that asked it; drill answers are graded against this role
+  jobDescription: string;
+  sessionIds: string[];
+  attempts: QuestionAttempt[];
+  schedule: ReviewSchedule;
+}
+
+// Words nearly every interview question opens with, which would make unrelated questions look alike
+const QUESTION_FILLER_WORDS = new Set(["tell", "me", "time", "describe", "give", "example", "had", "how", "would", "did", "walk", "through"]);
+
+// Terms are cut to a short stem so "disagreed" and "disagreement" count as the same word
+const questionTerms = (text: string) => new Set(
+  tokenize(text).filter(t => isKeywordToken(t) && !QUESTION_FILLER_WORDS.has(t)).map(t => normalizeToken(t).slice(0, 6))
+);
+
+const termSimilarity = (a: Set<string>, b: Set<string>) => {
+  const shared = [...a].filter(term => b.has(term)).length;
+  const total = new Set([...a, ...b]).size;
+  return total ? shared / total : 0;
+};
+
+const tagQuestionSkills = (question: InterviewQuestion) => {
+  const skills = SKILL_TAGS.filter(t => t.pattern.test(question.question)).map(t => t.skill);
+  // The question alone is often too short to place; why it's asked usually names the skill
+  return skills.length ? skills : SKILL_TAGS.filter(t => t.pattern.test(question.why_asked)).map(t => t.skill).slice(0, 2);
+};
+
+// SM-2, with the answer score standing in for its 0-5 recall grade
+const scheduleReview = (attempts: QuestionAttempt[]): ReviewSchedule => attempts.reduce<ReviewSchedule>((schedule, attempt) => {
+  const grade = attempt.score / 20;
+  const ease = Math.max(MIN_EASE, schedule.ease + 0.1 - (5 - grade) * (0.08 + (5 - grade) * 0.02));
+  const passed = attempt.score >= REVIEW_PASS_SCORE;
+  const repetitions = passed ? schedule.repetitions + 1 : 0;
+  const intervalDays = !passed
+    ? FAILED_REVIEW_INTERVAL_DAYS
+    : PASSED_REVIEW_INTERVAL_DAYS[repetitions - 1] ?? Math.round(schedule.intervalDays * ease);
+  return {
+    repetitions,
+    intervalDays,
+    ease,
+    dueDay: shiftDayKey(toDateInputValue(attempt.answeredAt), intervalDays),
+    lastScore: attempt.score
+  };
+}, { repetitions: 0, intervalDays: 0, ease: INITIAL_EASE, dueDay: null, lastScore: null });
+
+const buildQuestionBank = (sessions: SessionData[], drillAttempts: DrillAttempt[]): BankQuestion[] => {
+  const entries: (Omit<BankQuestion, 'schedule'> & { terms: Set<string> })[] = [];
+  const findOrAddEntry = (question: InterviewQuestion, jobDescription: string) => {
+    const text = question.question.trim();
+    const terms = questionTerms(text);
+    const existing = entries.find(e => e.key.toLowerCase() === text.toLowerCase() || termSimilarity(e.terms, terms) >= QUESTION_SIMILARITY_THRESHOLD);
+    if (existing) return existing;
+    const entry = { key: text, question, skills: tagQuestionSkills(question), jobDescription, sessionIds: [], attempts: [], terms };
+    entries.push(entry);
+    return entry;
+  };
+
+  [...sessions].sort((a, b) => a.timestamp - b.timestamp).forEach(session => {
+    const answers = [
+      ...session.writtenAnswers.map(a => ({ questionIndex: a.questionIndex, feedback: a.feedback, answeredAt: a.answeredAt, source: 'written' as const })),
+      ...session.verbalAnswers.map(a => ({ questionIndex: a.questionIndex, feedback: a.feedback, answeredAt: a.answeredAt, source: 'verbal' as const }))
+    ];
+    session.questions.forEach((question, index) => {
+      const entry = findOrAddEntry(question, session.jobDescription);
+      if (!entry.sessionIds.includes(session.id)) entry.sessionIds.push(session.id);
+      entry.jobDescription = session.jobDescription || entry.jobDescription;
+      answers.filter(a => a.questionIndex === index && a.feedback).forEach(a => entry.attempts.push({
+        score: a.feedback!.score,
+        answeredAt: a.answeredAt,
+        source: a.source
+      }));
+    });
+  });
+  // Drill answers outlive the session a question came from
+  drillAttempts.forEach(attempt => findOrAddEntry(attempt.question, "").attempts.push({
+    score: attempt.feedback.score,
+    answeredAt: attempt.answeredAt,
+    source: 'drill'
+  }));
+
+  return entries.map(({ terms, ...entry }) => {
+    const attempts = [...entry.attempts].sort((a, b) => a.answeredAt - b.answeredAt);
+    return { ...entry, attempts, schedule: scheduleReview(attempts) };
+  });
+};
+
+const isReviewDue = (entry: BankQuestion, today: string) => entry.schedule.dueDay !== null && entry.schedule.dueDay <= today;
+
+// Due reviews first, most overdue and then weakest first; questions never answered fill the rest
+const pickDailyDrill = (bank: BankQuestion[], today: string, size = DAILY_DRILL_SIZE) => {
+  const due = bank
+    .filter(q => isReviewDue(q, today))
+    .sort((a, b) => a.schedule.dueDay!.localeCompare(b.schedule.dueDay!) || a.schedule.lastScore! - b.schedule.lastScore!);
+  const unanswered = bank.filter(q => q.schedule.dueDay === null);
+  return [...due, ...unanswered].slice(0, size);
+};
+
+const describeReviewDue = (schedule: ReviewSchedule, today: string) => {
+  if (schedule.dueDay === null) return "New";
+  if (schedule.dueDay === today) return "Due today";
+  if (schedule.dueDay < today) return `Overdue since ${new Date(fromDateInputValue(schedule.dueDay)).toLocaleDateString()}`;
+  const days = Math.round((fromDateInputValue(schedule.dueDay) - fromDateInputValue(today)) / 86400000);
+  return days === 1 ? "Due tomorrow" : `Due in ${days} days`;
+};
+
+// --- LOCAL ACCOUNTS ---
+
+// Accounts never leave this browser. Each one has a random AES-GCM key that encrypts its saved
+// sessions; that key is stored only wrapped by a key derived from the passphrase (PBKDF2), so
+// history can't be read without signing in, and changing the passphrase just re-wraps it.
+interface LocalAccount {
+  email: string;
+  name: string;
+  salt: string;
+  iterations: number;
+  wrappedKey: string;
+  wrapIv: string;
+  createdAt: number;
+}
+
+class AccountError extends Error {
+  constructor(message: string, public kind: 'wrong-passphrase' | 'not-found' | 'exists' | 'weak-passphrase' | 'unsupported' | 'unreadable') {
+    super(message);
+    this.name = "AccountError";
+  }
+}
+
+const ACCOUNTS_KEY = "cc_accounts";
+const LAST_ACCOUNT_KEY = "cc_last_account";
+const PBKDF2_ITERATIONS = 310000;
+const MIN_PASSPHRASE_LENGTH = 8;
+
+const toBase64 = (bytes: ArrayBuffer | Uint8Array) => {
+  let binary = "";
+  new Uint8Array(bytes).forEach(b => { binary += String.fromCharCode(b); });
+  return btoa(binary);
+};
+
+const fromBase64 = (text: string) => Uint8Array.from(atob(text), c => c.charCodeAt(0));
+
+const normalizeEmail = (email: string) => email.trim().toLowerCase();
+
+// Never falls back to no accounts: the next save would overwrite the keys that unlock saved sessions
+const getAccounts = (): Record<string, LocalAccount> => {
+  let accounts: unknown = null;
+  try {
+    accounts = JSON.parse(localStorage.getItem(ACCOUNTS_KEY) ?? "{}");
+  } catch {
+    // Reported as unreadable below
+  }
+  if (accounts && typeof accounts === "object" && !Array.isArray(accounts)) return accounts as Record<string, LocalAccount>;
+  throw new AccountError("The accounts saved in this browser are unreadable, so no one can sign in on this device.", 'unreadable');
+};
+
+const saveAccount = (account: LocalAccount) => {
+  localStorage.setItem(ACCOUNTS_KEY, JSON.stringify({ ...getAccounts(), [account.email]: account }));
+};
+
+const assertCryptoAvailable = () => {
+  if (!window.crypto?.subtle) throw new AccountError("Accounts need a secure (https) connection in a modern browser.", 'unsupported');
+};
+
+const derivePassphraseKey = async (passphrase: string, salt: Uint8Array, iterations: number) => {
+  const material = await crypto.subtle.importKey("raw", new TextEncoder().encode(passphrase), "PBKDF2", false, ["deriveKey"]);
+  return crypto.subtle.deriveKey(
+    { name: "PBKDF2", salt, iterations, hash: "SHA-256" },
+    material,
+    { name: "AES-GCM", length: 256 },
+    false,
+    ["wrapKey", "unwrapKey"]
+  );
+};
+
+const wrapDataKey = async (dataKey: CryptoKey, passphrase: string) => {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const wrapIv = crypto.getRandomValues(new Uint8Array(12));
+  const passphraseKey = await derivePassphraseKey(passphrase, salt, PBKDF2_ITERATIONS);
+  const wrappedKey = await crypto.subtle.wrapKey("raw", dataKey, passphraseKey, { name: "AES-GCM", iv: wrapIv });
+  return { salt: toBase64(salt), iterations: PBKDF2_ITERATIONS, wrappedKey: toBase64(wrappedKey), wrapIv: toBase64(wrapIv) };
+};
+
+// AES-GCM authenticates the wrapped key, so a wrong passphrase fails here instead of yielding garbage
+const unwrapDataKey = async (account: LocalAccount, passphrase: string, extractable = false) => {
+  const passphraseKey = await derivePassphraseKey(passphrase, fromBase64(account.salt), account.iterations);
+  try {
+    return await crypto.subtle.unwrapKey(
+      "raw",
+      fromBase64(account.wrappedKey),
+      passphraseKey,
+      { name: "AES-GCM", iv: fromBase64(account.wrapIv) },
+      { name: "AES-GCM" },
+      extractable,
+      ["encrypt", "decrypt"]
+    );
+  } catch {
+    throw new AccountError("Wrong passphrase. Check it and try again.", 'wrong-passphrase');
+  }
+};
+
+const checkPassphraseStrength = (passphrase: string) => {
+  if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+    throw new AccountError(`Use a passphrase of at least ${MIN_PASSPHRASE_LENGTH} characters.`, 'weak-passphrase');
+  }
+};
+
+const findAccount = (email: string) => {
+  const account = getAccounts()[normalizeEmail(email)];
+  if (!account) throw new AccountError("No account with that email on this device. Create one first.", 'not-found');
+  return account;
+};
+
+const unlockAccount = async (email: string, passphrase: string) => {
+  assertCryptoAvailable();
+  const account = findAccount(email);
+  const key = await unwrapDataKey(account, passphrase);
+  localStorage.setItem(LAST_ACCOUNT_KEY, account.email);
+  return { user: { name: account.name, email: account.email } as User, key };
+};
+
+const createAccount = async (name: string, email: string, passphrase: string) => {
+  assertCryptoAvailable();
+  checkPassphraseStrength(passphrase);
+  const normalized = normalizeEmail(email);
+  if (getAccounts()[normalized]) throw new AccountError("An account with that email already exists. Sign in instead.", 'exists');
+  const dataKey = await crypto.subtle.generateKey({ name: "AES-GCM", length: 256 }, true, ["encrypt", "decrypt"]);
+  saveAccount({ email: normalized, name: name.trim(), createdAt: Date.now(), ...await wrapDataKey(dataKey, passphrase) });
+  // Unlock again so the key kept in memory is not extractable
+  return unlockAccount(normalized, passphrase);
+};
+
+const changePassphrase = async (email: string, currentPassphrase: string, newPassphrase: string) => {
+  assertCryptoAvailable();
+  checkPassphraseStrength(newPassphrase);
+  const account = findAccount(email);
+  const dataKey = await unwrapDataKey(account, currentPassphrase, true);
+  saveAccount({ ...account, ...await wrapDataKey(dataKey, newPassphrase) });
+};
+
+const encryptJson = async (key: CryptoKey, value: unknown) => {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const ciphertext = await crypto.subtle.encrypt({ name: "AES-GCM", iv }, key, new TextEncoder().encode(JSON.stringify(value)));
+  return { iv, ciphertext };
+};
+
+const decryptJson = async (key: CryptoKey, iv: Uint8Array, ciphertext: ArrayBuffer) =>
+  JSON.parse(new TextDecoder().decode(await crypto.subtle.decrypt({ name: "AES-GCM", iv }, key, ciphertext)));
+
+// --- SESSION STORE ---
+
+// Sessions live in IndexedDB, one record per session, so a large history neither hits the
+// localStorage quota nor has to be rewritten in full on every save. Each record carries the
+// SessionData schema version it was written with and is migrated forward when read.
+// The session itself is encrypted with the owner's account key.
+interface StoredSession {
+  id: string;
+  owner: string;
+  schemaVersion: number;
+  savedAt: number;
+  iv?: Uint8Array;
+  ciphertext?: ArrayBuffer;
+  // Plain text records from before accounts existed; encrypted on the owner's next sign-in
+  session?: SessionData;
+}
+
+class SessionStoreError extends Error {
+  constructor(message: string, public kind: 'quota' | 'unavailable' | 'failed' | 'blocked') {
+    super(message);
+    this.name = "SessionStoreError";
+  }
+}
+
+const SESSION_DB_NAME = "career-coach";
+const SESSION_DB_VERSION = 2;
+const SESSION_STORE = "sessions";
+const DRILL_STORE = "drill-attempts";
+
+// Bump when SessionData changes shape, and add a migration from the previous version
+const SESSION_SCHEMA_VERSION = 6;
+
+// Each entry upgrades a session saved with schema version N to N + 1
+const SESSION_MIGRATIONS: Record<number, (session: any) => any> = {
+  // 1: the original localStorage shape, before structured resumes, delivery metrics,
+  // interviewer-specific candidate questions, the structured mock debrief and prompt versions
+  1: session => ({
+    ...session,
+    parsedResume: session.resumeText ? parseResumeStructure(session.resumeText) : null,
+    verbalAnswers: (session.verbalAnswers ?? []).map((a: any) => ({ ...a, metrics: a.metrics ?? null })),
+    candidateQuestions: (session.candidateQuestions ?? []).map((q: any) => ({
+      id: q.id ?? crypto.randomUUID(),
+      interviewerType: q.interviewerType ?? 'hiring manager',
+      question: q.question ?? "",
+      context: q.context ?? "",
+      goodSignal: q.goodSignal ?? "",
+      badSignal: q.badSignal ?? "",
+      ...(q.isStarred ? { isStarred: true } : {}),
+      ...(q.isCustom ? { isCustom: true } : {})
+    })),
+    // The old debrief was free text that never made it into the rubric format
+    mockInterviewFeedback: typeof session.mockInterviewFeedback === "object" ? session.mockInterviewFeedback : null,
+    promptVersions: session.promptVersions ?? {}
+  }),
+  // 2: sessions were only saved by hand from the summary step, so they are all complete
+  2: session => ({
+    ...session,
+    lastStep: 'summary',
+    stepHistory: [],
+    updatedAt: session.timestamp,
+    completedAt: session.timestamp
+  }),
+  // 3: uploaded files weren't kept
+  3: session => ({ ...session, attachments: [] }),
+  // 4: sessions weren't tracked as applications
+  4: session => ({ ...session, application: createApplication(session.timestamp) }),
+  // 5: answers didn't record when they were given; the session's completion (or start) stands in,
+  // since updatedAt moves on every save and would keep moving old answers in the charts
+  5: session => {
+    const answeredAt = session.completedAt ?? session.timestamp;
+    const backfill = (answers: any[] = []) => answers.map(a => ({ ...a, answeredAt: a.answeredAt ?? answeredAt }));
+    return { ...session, writtenAnswers: backfill(session.writtenAnswers), verbalAnswers: backfill(session.verbalAnswers) };
+  }
+};
+
+const migrateSession = (session: any, fromVersion: number): SessionData => {
+  let migrated = session;
+  for (let version = fromVersion; version < SESSION_SCHEMA_VERSION; version++) {
+    const migrate = SESSION_MIGRATIONS[version];
+    if (!migrate) throw new SessionStoreError(`No migration from session schema version ${version}`, 'failed');
+    migrated = migrate(migrated);
+  }
+  return migrated;
+};
+
+const toSessionStoreError = (error: unknown, action: string) => {
+  if (error instanceof SessionStoreError) return error;
+  console.error(`Session store: ${action} failed`, error);
+  if (error instanceof DOMException && error.name === "QuotaExceededError") {
+    return new SessionStoreError("Your browser's storage is full, so this session was not saved. Delete old sessions from History to free up space.", 'quota');
+  }
+  return new SessionStoreError(`Could not ${action}. Your browser may be blocking local storage.`, 'failed');
+};
+
+const requestToPromise = <T,>(request: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const transactionDone = (transaction: IDBTransaction) => new Promise<void>((resolve, reject) => {
+  transaction.oncomplete = () => resolve();
+  transaction.onerror = () => reject(transaction.error);
+  transaction.onabort = () => reject(transaction.error);
+});
+
+let sessionDb: Promise<IDBDatabase> | null = null;
+
+const openSessionDb = () => {
+  if (!window.indexedDB) return Promise.reject(new SessionStoreError("This browser does not support saving sessions.", 'unavailable'));
+  sessionDb ??= new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(SESSION_DB_NAME, SESSION_DB_VERSION);
+    let isBlocked = false;
+    request.onupgradeneeded = event => {
+      const db = request.result;
+      if (event.oldVersion < 1) db.createObjectStore(SESSION_STORE, { keyPath: "id" }).createIndex("owner", "owner");
+      if (event.oldVersion < 2) db.createObjectStore(DRILL_STORE, { keyPath: "id" }).createIndex("owner", "owner");
+    };
+    request.onsuccess = () => {
+      const db = request.result;
+      // Opened after giving up on it; the next access opens a fresh connection
+      if (isBlocked) return db.close();
+      // Another tab needs a newer version; let it upgrade, and reopen on the next access
+      db.onversionchange = () => {
+        db.close();
+        sessionDb = null;
+      };
+      resolve(db);
+    };
+    request.onerror = () => {
+      sessionDb = null;
+      reject(request.error);
+    };
+    // An older tab still has the database open, so the upgrade would wait forever
+    request.onblocked = () => {
+      isBlocked = true;
+      sessionDb = null;
+      reject(new SessionStoreError("The app is open in another tab with an older version. Close or reload that tab, then try again.", 'blocked'));
+    };
+  });
+  return sessionDb;
+};
+
+const listStoredSessions = async (owner: string, key: CryptoKey): Promise<SessionData[]> => {
+  try {
+    const db = await openSessionDb();
+    const records = await requestToPromise<StoredSession[]>(
+      db.transaction(SESSION_STORE).objectStore(SESSION_STORE).index("owner").getAll(owner)
+    );
+    const sessions = await Promise.all(records.map(async r => migrateSession(
+      r.session ?? await decryptJson(key, r.iv!, r.ciphertext!),
+      r.schemaVersion ?? 1
+    )));
+    return sessions.sort((a, b) => b.updatedAt - a.updatedAt);
+  } catch (error) {
+    throw toSessionStoreError(error, "load your saved sessions");
+  }
+};
+
+const putStoredSessions = async (owner: string, key: CryptoKey, sessions: SessionData[]) => {
+  try {
+    // Encrypt first: a transaction closes if it waits on anything but its own requests
+    const records: StoredSession[] = await Promise.all(sessions.map(async session => ({
+      id: session.id,
+      owner,
+      schemaVersion: SESSION_SCHEMA_VERSION,
+      savedAt: Date.now(),
+      ...await encryptJson(key, session)
+    })));
+    const db = await openSessionDb();
+    const transaction = db.transaction(SESSION_STORE, "readwrite");
+    const store = transaction.objectStore(SESSION_STORE);
+    records.forEach(record => store.put(record));
+    await transactionDone(transaction);
+  } catch (error) {
+    throw toSessionStoreError(error, "save this session");
+  }
+};
+
+const saveStoredSession = (owner: string, key: CryptoKey, session: SessionData) => putStoredSessions(owner, key, [session]);
+
+// Returns the sessions as saved, since some may have been given new ids
+const importStoredSessions = async (owner: string, key: CryptoKey, sessions: SessionData[]) => {
+  let ownersById: Map<string, string>;
+  try {
+    const db = await openSessionDb();
+    const store = db.transaction(SESSION_STORE).objectStore(SESSION_STORE);
+    const existing = await Promise.all(sessions.map(s => requestToPromise<StoredSession | undefined>(store.get(s.id))));
+    ownersById = new Map(existing.flatMap(r => r ? [[r.id, normalizeEmail(r.owner)] as const] : []));
+  } catch (error) {
+    throw toSessionStoreError(error, "import these sessions");
+  }
+  const claimed = claimSessionIds(sessions, owner, ownersById);
+  await putStoredSessions(owner, key, claimed);
+  return claimed;
+};
+
+// Records written before accounts were plain text, possibly under a differently-cased email
+const encryptPlaintextSessions = async (owner: string, key: CryptoKey) => {
+  let plaintext: StoredSession[];
+  try {
+    const db = await openSessionDb();
+    const records = await requestToPromise<StoredSession[]>(db.transaction(SESSION_STORE).objectStore(SESSION_STORE).getAll());
+    plaintext = records.filter(r => r.session && normalizeEmail(r.owner) === owner);
+  } catch (error) {
+    throw toSessionStoreError(error, "load your saved sessions");
+  }
+  if (plaintext.length === 0) return;
+  await putStoredSessions(owner, key, plaintext.map(r => migrateSession(r.session, r.schemaVersion ?? 1)));
+};
+
+const deleteStoredSession = async (id: string) => {
+  try {
+    const db = await openSessionDb();
+    const transaction = db.transaction(SESSION_STORE, "readwrite");
+    transaction.objectStore(SESSION_STORE).delete(id);
+    await transactionDone(transaction);
+  } catch (error) {
+    throw toSessionStoreError(error, "delete that session");
+  }
+};
+
+// Drill answers are stored like sessions, one encrypted record each, but have no schema to migrate
+const listDrillAttempts = async (owner: string, key: CryptoKey): Promise<DrillAttempt[]> => {
+  try {
+    const db = await openSessionDb();
+    const records = await requestToPromise<{ iv: Uint8Array; ciphertext: ArrayBuffer }[]>(
+      db.transaction(DRILL_STORE).objectStore(DRILL_STORE).index("owner").getAll(owner)
+    );
+    return await Promise.all(records.map(r => decryptJson(key, r.iv, r.ciphertext)));
+  } catch (error) {
+    throw toSessionStoreError(error, "load your question bank");
+  }
+};
+
+const saveDrillAttempt = async (owner: string, key: CryptoKey, attempt: DrillAttempt) => {
+  try {
+    const record = { id: attempt.id, owner, ...await encryptJson(key, attempt) };
+    const db = await openSessionDb();
+    const transaction = db.transaction(DRILL_STORE, "readwrite");
+    transaction.objectStore(DRILL_STORE).put(record);
+    await transactionDone(transaction);
+  } catch (error) {
+    throw toSessionStoreError(error, "save this answer");
+  }
+};
+
+// History used to be one localStorage array per user; move it over once, then drop the key
+const importLegacyHistory = async (owner: string, sessionKey: CryptoKey) => {
+  const key = Object.keys(localStorage).find(k => k.toLowerCase() === `cc_history_${owner}`);
+  const saved = key && localStorage.getItem(key);
+  if (!key || !saved) return;
+  let legacy: any[];
+  try {
+    legacy = JSON.parse(saved);
+  } catch {
+    console.warn("Discarding unreadable legacy history");
+    localStorage.removeItem(key);
+    return;
+  }
+  // Old saves could hold the same session several times; keep the first (newest) copy
+  const unique = new Map<string, SessionData>();
+  legacy.forEach(s => { if (s?.id && !unique.has(s.id)) unique.set(s.id, migrateSession(s, 1)); });
+  await putStoredSessions(owner, sessionKey, [...unique.values()]);
+  localStorage.removeItem(key);
+};
+
+// --- SESSION TRANSFER ---
+
+// Portable JSON backups of saved sessions, documented in the README under "Session Export Format".
+// The envelope is versioned separately from SessionData so either can change without the other.
+const SESSION_EXPORT_FORMAT = "career-coach-sessions";
+const SESSION_EXPORT_VERSION = 1;
+const MAX_ATTACHMENT_BYTES = 2 * 1024 * 1024;
+
+interface SessionExportFile {
+  format: typeof SESSION_EXPORT_FORMAT;
+  formatVersion: number;
+  exportedAt: string;
+  // SessionData schema version the sessions were written with; older ones are migrated on import
+  schemaVersion: number;
+  includesAttachments: boolean;
+  sessions: SessionData[];
+}
+
+class SessionImportError extends Error {
+  constructor(message: string, public kind: 'invalid-file' | 'unsupported-version') {
+    super(message);
+    this.name = "SessionImportError";
+  }
+}
+
+type SessionImportStrategy = 'merge' | 'replace';
+
+interface SessionImportPlan {
+  sessions: SessionData[];
+  // Imported sessions whose id is already in the history, paired with the local copy
+  conflicts: { incoming: SessionData; existing: SessionData }[];
+}
+
+const buildSessionExport = (sessions: SessionData[], includeAttachments: boolean): Blob => {
+  const file: SessionExportFile = {
+    format: SESSION_EXPORT_FORMAT,
+    formatVersion: SESSION_EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    schemaVersion: SESSION_SCHEMA_VERSION,
+    includesAttachments: includeAttachments,
+    sessions: includeAttachments ? sessions : sessions.map(s => ({ ...s, attachments: [] }))
+  };
+  return new Blob([JSON.stringify(file, null, 2)], { type: "application/json" });
+};
+
+const sessionExportFileName = (sessions: SessionData[]) => sessions.length === 1
+  ? exportFileName(sessions[0].fileName, sessions[0].jobTitle, "Session", "json")
+  : `Career Coach Sessions ${new Date().toISOString().slice(0, 10)}.json`;
+
+const readResumeAttachment = async (file: File): Promise<SessionAttachment | null> => {
+  if (file.size > MAX_ATTACHMENT_BYTES) return null;
+  return {
+    id: crypto.randomUUID(),
+    kind: 'resume',
+    fileName: file.name,
+    mimeType: file.type || "application/octet-stream",
+    size: file.size,
+    data: toBase64(await file.arrayBuffer())
+  };
+};
+
+const downloadAttachment = (attachment: SessionAttachment) =>
+  downloadBlob(new Blob([fromBase64(attachment.data)], { type: attachment.mimeType }), attachment.fileName);
+
+// The least a record needs to be worth migrating; migrations fill in everything added since
+const isSessionRecord = (value: any) =>
+  !!value && typeof value === "object" && typeof value.id === "string" && value.id !== "" &&
+  typeof value.resumeText === "string" && typeof value.jobDescription === "string";
+
+// After migration every version has these, and the screens assume they are lists
+const SESSION_LIST_FIELDS = [
+  'optimizedResumes', 'coverLetters', 'questions', 'writtenAnswers', 'verbalAnswers',
+  'candidateQuestions', 'mockInterviewTranscript', 'stepHistory'
+] as const;
+
+const BASE64_REGEX = /^[A-Za-z0-9+/]*={0,2}$/;
+
+const isAttachment = (value: any): value is SessionAttachment =>
+  !!value && typeof value.fileName === "string" && typeof value.mimeType === "string" &&
+  typeof value.data === "string" && value.data.length % 4 === 0 && BASE64_REGEX.test(value.data);
+
+// Listed as a record so the compiler flags a Step missing here
+const KNOWN_STEPS: Record<Step, true> = {
+  'landing': true, 'upload': true, 'job-desc': true, 'analysis': true, 'dashboard': true, 'cover-letter': true,
+  'written-practice': true, 'verbal-practice': true, 'candidate-questions': true, 'mock-interview': true,
+  'mock-analysis': true, 'summary': true, 'history': true, 'tracker': true, 'compare': true, 'progress': true,
+  'question-bank': true
+};
+
+const isStep = (value: unknown): value is Step => typeof value === "string" && Object.hasOwn(KNOWN_STEPS, value);
+
+const isTimestamp = (value: unknown): value is number => typeof value === "number" && Number.isFinite(value) && value >= 0;
+
+// The fields a migrated session is opened, sorted and merged by, checked before anything is saved
+const isIntactSession = (session: SessionData) =>
+  SESSION_LIST_FIELDS.every(field => Array.isArray(session[field])) &&
+  typeof session.application?.status === "string" &&
+  isStep(session.lastStep) && session.stepHistory.every(isStep) &&
+  isTimestamp(session.timestamp) && isTimestamp(session.updatedAt) &&
+  [...session.writtenAnswers, ...session.verbalAnswers].every(a => isTimestamp(a.answeredAt)) &&
+  (session.completedAt === null || isTimestamp(session.completedAt)) &&
+  !!session.promptVersions && typeof session.promptVersions === "object" && !Array.isArray(session.promptVersions) &&
+  Object.values(session.promptVersions).every(v => typeof v === "string") &&
+  (session.attachments === undefined || (Array.isArray(session.attachments) && session.attachments.every(isAttachment)));
+
+const parseSessionExport = (text: string): SessionData[] => {
+  let file: any;
+  try {
+    file = JSON.parse(text);
+  } catch {
+    throw new SessionImportError("This file isn't valid JSON.", 'invalid-file');
+  }
+  if (file?.format !== SESSION_EXPORT_FORMAT || !Array.isArray(file.sessions)) {
+    throw new SessionImportError("This isn't a Career Coach session export.", 'invalid-file');
+  }
+  if (!Number.isInteger(file.formatVersion) || !Number.isInteger(file.schemaVersion) || file.schemaVersion < 1) {
+    throw new SessionImportError("This export is missing its version numbers.", 'invalid-file');
+  }
+  if (file.formatVersion > SESSION_EXPORT_VERSION || file.schemaVersion > SESSION_SCHEMA_VERSION) {
+    throw new SessionImportError("This export was made by a newer version of the app. Update the app and try again.", 'unsupported-version');
+  }
+  const invalid = file.sessions.findIndex((s: unknown) => !isSessionRecord(s));
+  if (invalid >= 0) throw new SessionImportError(`Session ${invalid + 1} in this file is missing required fields.`, 'invalid-file');
+
+  const unique = new Map<string, SessionData>();
+  file.sessions.forEach((s: any, index: number) => {
+    if (unique.has(s.id)) return;
+    let session: SessionData;
+    try {
+      session = migrateSession(s, file.schemaVersion);
+    } catch (error) {
+      console.error(error);
+      throw new SessionImportError(`Session ${index + 1} in this file could not be upgraded to the current format.`, 'invalid-file');
+    }
+    if (!isIntactSession(session)) {
+      throw new SessionImportError(`Session ${index + 1} in this file is damaged.`, 'invalid-file');
+    }
+    unique.set(s.id, { ...session, attachments: session.attachments ?? [] });
+  });
+  return [...unique.values()];
+};
+
+const planSessionImport = (sessions: SessionData[], existing: SessionData[]): SessionImportPlan => {
+  const byId = new Map(existing.map(s => [s.id, s]));
+  return {
+    sessions,
+    conflicts: sessions.filter(s => byId.has(s.id)).map(s => ({ incoming: s, existing: byId.get(s.id)! }))
+  };
+};
+
+// Merge keeps whichever copy of a conflicting session was updated last; replace lets the file win
+const resolveSessionImport = (plan: SessionImportPlan, strategy: SessionImportStrategy) => {
+  const existing = new Map(plan.conflicts.map(c => [c.incoming.id, c.existing]));
+  return plan.sessions.filter(s => {
+    const local = existing.get(s.id);
+    return !local || strategy === 'replace' || s.updatedAt > local.updatedAt;
+  });
+};
+
+// --- HELPERS ---
+
+const SimpleMarkdownRenderer = ({ content }: { content: string }) => {
+  if (!content) return null;
+  const lines = content.split('\n');
+  return (
+    <div className="font-sans space-y-2 text-gray-800">
+      {lines.map((line, i) => {
+        const trimmed = line.trim();
+        if (trimmed.startsWith('# ')) return <h1 key={i} className="text-2xl font-bold border-b border-gray-300 pb-1 mt-4 mb-2">{trimmed.substring(2)}</h1>;
+        if (trimmed.startsWith('## ')) return <h2 key={i} className="text-lg font-bold text-gray-700 mt-3 mb-1 uppercase tracking-wide">{trimmed.substring(3)}</h2>;
+        if (trimmed.startsWith('### ')) return <h3 key={i} className="text-md font-semibold text-gray-800 mt-2">{trimmed.substring(4)}</h3>;
+        if (trimmed.startsWith('- ') || trimmed.startsWith('* ')) return <div key={i} className="flex gap-2 ml-4"><span className="text-gray-400 mt-1.5">•</span><p className="flex-1">{trimmed.substring(2)}</p></div>;
+        if (trimmed === '') return <div key={i} className="h-1"></div>;
+        return <p key={i} className="leading-relaxed">{trimmed}</p>;
+      })}
+    </div>
+  );
+};
+
+type DiffRow = { left: string | null; right: string | null; type: 'same' | 'changed' | 'removed' | 'added' };
+
+// Line-level LCS diff, paired up into side-by-side rows
+const diffLines = (original: string, revised: string): DiffRow[] => {
+  const a = original.split('\n');
+  const b = revised.split('\n');
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i].trim() === b[j].trim() ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const rows: DiffRow[] = [];
+  let removed: string[] = [];
+  let added: string[] = [];
+  const flush = () => {
+    for (let k = 0; k < Math.max(removed.length, added.length); k++) {
+      const left = removed[k] ?? null;
+      const right = added[k] ?? null;
+      rows.push({ left, right, type: left !== null && right !== null ? 'changed' : left !== null ? 'removed' : 'added' });
+    }
+    removed = [];
+    added = [];
+  };
+
+  let i = 0, j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i].trim() === b[j].trim()) {
+      flush();
+      rows.push({ left: a[i], right: b[j], type: 'same' });
+      i++; j++;
+    } else if (j < b.length && (i >= a.length || lcs[i][j + 1] >= lcs[i + 1][j])) {
+      added.push(b[j++]);
+    } else {
+      removed.push(a[i++]);
+    }
+  }
+  flush();
+  return rows;
+};
+
+// --- COMPONENTS ---
+
+const ParsedResumeSummary = ({ resume, fileName, attachment }: { resume: ParsedResume; fileName: string; attachment?: SessionAttachment }) => {
+  const latestRole = resume.experience[0];
+  return (
+    <div className="bg-white p-4 rounded-xl border border-gray-100 shadow-sm mb-4 flex items-start gap-3">
+      <div className="p-2 bg-blue-50 rounded-lg text-primary"><FileText className="w-5 h-5" /></div>
+      <div className="flex-1 text-sm">
+        <div className="font-bold text-gray-900">{resume.contact.name || fileName || "Your Resume"}</div>
+        {latestRole && <div className="text-gray-500">{latestRole.title}{latestRole.company && ` @ ${latestRole.company}`} • {latestRole.startDate} – {latestRole.endDate}</div>}
+        <div className="flex flex-wrap gap-2 mt-2 text-xs">
+          <span className="px-2 py-0.5 bg-gray-100 rounded text-gray-600">{resume.experience.length} roles</span>
+          <span className="px-2 py-0.5 bg-gray-100 rounded text-gray-600">{resume.education.length} education</span>
+          <span className="px-2 py-0.5 bg-gray-100 rounded text-gray-600">{resume.skills.length} skills</span>
+          {!resume.summary && <span className="px-2 py-0.5 bg-yellow-50 rounded text-yellow-700">No summary found</span>}
+        </div>
+      </div>
+      {attachment && (
+        <button onClick={() => downloadAttachment(attachment)} className="p-2 text-gray-400 hover:text-primary rounded-lg" title={`Download ${attachment.fileName}`}>
+          <Download className="w-4 h-4" />
+        </button>
+      )}
+    </div>
+  );
+};
+
+const Header = ({ user, onLoginClick, onLogoutClick, onGoToHistory, onGoToTracker, onGoToQuestionBank, onOpenSettings, onChangePassphrase, onHome, onBack, showBack }: any) => (
+  <header className="bg-white border-b border-gray-100 sticky top-0 z-50">
+    <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 h-16 flex items-center justify-between">
+      <div className="flex items-center gap-4">
+        {showBack && (
+          <button onClick={onBack} className="p-2 hover:bg-gray-100 rounded-full text-gray-500 transition-colors">
+            <ChevronLeft className="w-5 h-5" />
+          </button>
+        )}
+        <div className="flex items-center gap-2 cursor-pointer" onClick={onHome}>
+          <div className="w-8 h-8 bg-primary rounded-lg flex items-center justify-center">
+            <Briefcase className="w-5 h-5 text-white" />
+          </div>
+          <span className="font-bold text-xl text-gray-900 hidden sm:inline">Career<span className="text-primary">Coach</span>.ai</span>
+        </div>
+      </div>
+      <div className="flex items-center gap-4">
+        <button onClick={onOpenSettings} className="p-2 hover:bg-gray-100 rounded-full text-gray-500" title="AI Settings"><Settings className="w-4 h-4" /></button>
+        {user ? (
+          <>
+            <button onClick={onGoToTracker} className="flex items-center gap-2 text-sm font-medium text-gray-600 hover:text-primary transition-colors">
+              <Briefcase className="w-4 h-4" /> Applications
+            </button>
+            <button onClick={onGoToQuestionBank} className="flex items-center gap-2 text-sm font-medium text-gray-600 hover:text-primary transition-colors">
+              <Target className="w-4 h-4" /> Drill
+            </button>
+            <button onClick={onGoToHistory} className="flex items-center gap-2 text-sm font-medium text-gray-600 hover:text-primary transition-colors">
+              <History className="w-4 h-4" /> History
+            </button>
+            <div className="flex items-center gap-3 pl-4 border-l border-gray-200">
+               <div className="flex flex-col text-right hidden sm:block">
+                 <span className="text-xs font-bold text-gray-900">{user.name}</span>
+                 <span className="text-xs text-gray-500">{user.email}</span>
+               </div>
+               <div className="w-8 h-8 bg-blue-100 text-blue-700 rounded-full flex items-center justify-center font-bold text-xs">{user.name.charAt(0)}</div>
+               <button onClick={onChangePassphrase} className="p-2 hover:bg-gray-100 rounded-full text-gray-500" title="Change passphrase"><Lock className="w-4 h-4" /></button>
+               <button onClick={onLogoutClick} className="p-2 hover:bg-gray-100 rounded-full text-gray-500" title="Logout"><LogOut className="w-4 h-4" /></button>
+            </div>
+          </>
+        ) : (
+          <button onClick={onLoginClick} className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-primary border border-primary/20 rounded-lg hover:bg-blue-50 transition-colors">
+            <LogIn className="w-4 h-4" /> Login
+          </button>
+        )}
+      </div>
+    </div>
+  </header>
+);
+
+// One cancellable AI request per component: starting another or unmounting aborts the previous one
+const useAbortController = () => {
+  const controllerRef = useRef<AbortController | null>(null);
+  useEffect(() => () => controllerRef.current?.abort(), []);
+  return useMemo(() => ({
+    start: () => {
+      controllerRef.current?.abort();
+      controllerRef.current = new AbortController();
+      return controllerRef.current.signal;
+    },
+    stop: () => controllerRef.current?.abort()
+  }), []);
+};
+
+const StopButton = ({ onClick, className = "" }: { onClick: () => void; className?: string }) => (
+  <button onClick={onClick} className={`px-3 py-1.5 rounded-lg text-sm font-medium text-gray-600 border border-gray-200 bg-white hover:bg-gray-50 flex items-center gap-1.5 ${className}`}>
+    <Square className="w-3 h-3 fill-current" /> Stop
+  </button>
+);
+
+const LoadingScreen = ({ message, onCancel }: { message: string; onCancel?: () => void }) => {
+  const [funnyMessage, setFunnyMessage] = useState(message);
+  
+  useEffect(() => {
+    let index = 0;
+    const interval = setInterval(() => {
+      setFunnyMessage(FUNNY_LOADING_MESSAGES[index % FUNNY_LOADING_MESSAGES.length]);
+      index++;
+    }, 2500);
+    return () => clearInterval(interval);
+  }, []);
+
+  return (
+    <div className="fixed inset-0 bg-white/90 backdrop-blur-sm z-[60] flex flex-col items-center justify-center p-4 animate-fade-in">
+      <div className="bg-white p-8 rounded-2xl shadow-xl flex flex-col items-center max-w-sm w-full border border-gray-100 text-center">
+        <div className="relative mb-6">
+          <div className="w-16 h-16 border-4 border-gray-100 rounded-full"></div>
+          <div className="w-16 h-16 border-4 border-primary border-t-transparent rounded-full animate-spin absolute top-0 left-0"></div>
+          <div className="absolute inset-0 flex items-center justify-center">
+            <Sparkles className="w-6 h-6 text-primary animate-pulse" />
+          </div>
+        </div>
+        <h3 className="text-xl font-bold text-gray-900 mb-2">Working Magic...</h3>
+        <p className="text-gray-500 animate-pulse key={funnyMessage}">{funnyMessage}</p>
+        {onCancel && <StopButton onClick={onCancel} className="mt-6" />}
+      </div>
+    </div>
+  );
+};
+
+const ProgressBar = ({ step }: { step: Step }) => {
+  if (step === 'landing' || step === 'history' || step === 'tracker' || step === 'progress' || step === 'question-bank') return null;
+  
+  let progress = 0;
+  switch (step) {
+    case 'upload': progress = 15; break;
+    case 'job-desc':
+    case 'compare':
+      progress = 30; break;
+    case 'analysis': progress = 45; break;
+    case 'dashboard': progress = 60; break;
+    case 'cover-letter':
+    case 'written-practice':
+    case 'verbal-practice':
+    case 'candidate-questions':
+    case 'mock-interview':
+    case 'mock-analysis':
+      progress = 80; break;
+    case 'summary': progress = 100; break;
+    default: progress = 0;
+  }
+
+  return (
+    <div className="fixed top-16 left-0 right-0 h-1 bg-gray-100 z-40">
+      <div 
+        className="h-full bg-primary transition-all duration-700 ease-out shadow-[0_0_10px_rgba(37,99,235,0.5)]"
+        style={{ width: `${progress}%` }}
+      />
+    </div>
+  );
+};
+
+const AuthModal = ({ onClose, onLogin }: { onClose: () => void; onLogin: (user: User, key: CryptoKey) => void }) => {
+  const [mode, setMode] = useState<'sign-in' | 'create'>(() => {
+    try {
+      return Object.keys(getAccounts()).length > 0 ? 'sign-in' : 'create';
+    } catch {
+      // Signing in reports the problem
+      return 'sign-in';
+    }
+  });
+  const [name, setName] = useState("");
+  const [email, setEmail] = useState(() => localStorage.getItem(LAST_ACCOUNT_KEY) ?? "");
+  const [passphrase, setPassphrase] = useState("");
+  const [confirmPassphrase, setConfirmPassphrase] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+
+  const switchMode = (next: 'sign-in' | 'create') => {
+    setMode(next);
+    setError(null);
+    setPassphrase("");
+    setConfirmPassphrase("");
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    if (mode === 'create' && passphrase !== confirmPassphrase) {
+      setError("The passphrases don't match.");
+      return;
+    }
+    setIsWorking(true);
+    try {
+      const { user, key } = mode === 'create'
+        ? await createAccount(name, email, passphrase)
+        : await unlockAccount(email, passphrase);
+      onLogin(user, key);
+      onClose();
+    } catch (err) {
+      if (!(err instanceof AccountError)) console.error(err);
+      setError(err instanceof AccountError ? err.message : "Something went wrong. Try again.");
+      if (err instanceof AccountError && err.kind === 'wrong-passphrase') setPassphrase("");
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const inputClass = "w-full pl-10 pr-4 py-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-primary focus:border-transparent transition-all outline-none";
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-[70] flex items-center justify-center p-4 animate-fade-in">
+       <div className="bg-white rounded-2xl shadow-2xl max-w-md w-full p-8 relative">
+          <button onClick={onClose} className="absolute top-4 right-4 text-gray-400 hover:text-gray-600 transition-colors">
+             <X className="w-5 h-5" />
+          </button>
+          
+          <div className="text-center mb-8">
+             <div className="w-12 h-12 bg-blue-50 text-primary rounded-xl flex items-center justify-center mx-auto mb-4">
+                {mode === 'sign-in' ? <LogIn className="w-6 h-6" /> : <Lock className="w-6 h-6" />}
+             </div>
+             <h2 className="text-2xl font-bold text-gray-900">{mode === 'sign-in' ? "Welcome Back" : "Create an Account"}</h2>
+             <p className="text-gray-500 mt-1">{mode === 'sign-in' ? "Sign in to unlock your saved sessions" : "Your sessions are encrypted and stay on this device"}</p>
+          </div>
+
+          <form onSubmit={handleSubmit} className="space-y-4">
+             {mode === 'create' && (
+                <div>
+                   <label className="block text-sm font-medium text-gray-700 mb-1">Full Name</label>
+                   <div className="relative">
+                      <UserIcon className="w-5 h-5 text-gray-400 absolute left-3 top-2.5" />
+                      <input type="text" required className={inputClass} placeholder="John Doe" value={name} onChange={e => setName(e.target.value)} />
+                   </div>
+                </div>
+             )}
+             <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Email Address</label>
+                <div className="relative">
+                   <Briefcase className="w-5 h-5 text-gray-400 absolute left-3 top-2.5" />
+                   <input type="email" required autoComplete="username" className={inputClass} placeholder="john@example.com" value={email} onChange={e => setEmail(e.target.value)} />
+                </div>
+             </div>
+             <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Passphrase</label>
+                <div className="relative">
+                   <Lock className="w-5 h-5 text-gray-400 absolute left-3 top-2.5" />
+                   <input
+                     type="password"
+                     required
+                     autoFocus={mode === 'sign-in' && !!email}
+                     autoComplete={mode === 'sign-in' ? "current-password" : "new-password"}
+                     className={inputClass}
+                     value={passphrase}
+                     onChange={e => setPassphrase(e.target.value)}
+                   />
+                </div>
+             </div>
+             {mode === 'create' && (
+                <div>
+                   <label className="block text-sm font-medium text-gray-700 mb-1">Confirm Passphrase</label>
+                   <div className="relative">
+                      <Lock className="w-5 h-5 text-gray-400 absolute left-3 top-2.5" />
+                      <input type="password" required autoComplete="new-password" className={inputClass} value={confirmPassphrase} onChange={e => setConfirmPassphrase(e.target.value)} />
+                   </div>
+                   <p className="text-xs text-gray-500 mt-2">At least {MIN_PASSPHRASE_LENGTH} characters. It can't be recovered: forgetting it means losing access to your saved sessions.</p>
+                </div>
+             )}
+
+             {error && (
+                <div className="p-3 bg-red-50 border border-red-100 rounded-lg flex items-start gap-2 text-sm text-red-700">
+                   <AlertCircle className="w-4 h-4 flex-shrink-0 mt-0.5" /> {error}
+                </div>
+             )}
+
+             <button type="submit" disabled={isWorking} className="w-full py-3 bg-primary text-white font-bold rounded-lg hover:bg-primaryDark transition-colors mt-2 shadow-lg shadow-blue-200 disabled:opacity-60 flex items-center justify-center gap-2">
+                {isWorking && <Loader2 className="w-4 h-4 animate-spin" />}
+                {mode === 'sign-in' ? "Sign In" : "Create Account"}
+             </button>
+          </form>
+
+          <p className="text-center text-sm text-gray-500 mt-6">
+             {mode === 'sign-in' ? "New here? " : "Already have an account? "}
+             <button onClick={() => switchMode(mode === 'sign-in' ? 'create' : 'sign-in')} className="font-medium text-primary hover:underline">
+                {mode === 'sign-in' ? "Create an account" : "Sign in"}
+             </button>
+          </p>
+       </div>
+    </div>
+  );
+};
+
+const ChangePassphraseModal = ({ email, onClose }: { email: string; onClose: () => void }) => {
+  const [currentPassphrase, setCurrentPassphrase] = useState("");
+  const [newPassphrase, setNewPassphrase] = useState("");
+  const [confirmPassphrase, setConfirmPassphrase] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+  const [isDone, setIsDone] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    if (newPassphrase !== confirmPassphrase) {
+      setError("The new passphrases don't match.");
+      return;
+    }
+    setIsWorking(true);
+    try {
+      await changePassphrase(email, currentPassphrase, newPassphrase);
+      setIsDone(true);
+    } catch (err) {
+      if (!(err instanceof AccountError)) console.error(err);
+      setError(err instanceof AccountError ? err.message : "Could not change the passphrase. Try again.");
+      if (err instanceof AccountError && err.kind === 'wrong-passphrase') setCurrentPassphrase("");
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const inputClass = "w-full px-4 py-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-primary focus:border-transparent outline-none";
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-[70] flex items-center justify-center p-4 animate-fade-in">
+      <div className="bg-white rounded-2xl shadow-2xl max-w-md w-full p-8 relative">
+        <button onClick={onClose} className="absolute top-4 right-4 text-gray-400 hover:text-gray-600 transition-colors">
+          <X className="w-5 h-5" />
+        </button>
+        <h2 className="text-2xl font-bold text-gray-900 mb-1">Change Passphrase</h2>
+        <p className="text-gray-500 text-sm mb-6">Your saved sessions stay encrypted; only the passphrase that unlocks them changes.</p>
+
+        {isDone ? (
+          <div className="text-center">
+            <div className="p-3 bg-green-50 border border-green-100 rounded-lg flex items-center gap-2 text-sm text-green-700 mb-6">
+              <CheckCircle className="w-4 h-4" /> Passphrase updated. Use the new one next time you sign in.
+            </div>
+            <button onClick={onClose} className="px-6 py-2 bg-primary text-white font-bold rounded-lg hover:bg-primaryDark">Done</button>
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <label className="block text-sm font-medium text-gray-700">
+              Current passphrase
+              <input type="password" required autoComplete="current-password" className={`${inputClass} mt-1`} value={currentPassphrase} onChange={e => setCurrentPassphrase(e.target.value)} />
+            </label>
+            <label className="block text-sm font-medium text-gray-700">
+              New passphrase
+              <input type="password" required autoComplete="new-password" className={`${inputClass} mt-1`} value={newPassphrase} onChange={e => setNewPassphrase(e.target.value)} />
+            </label>
+            <label className="block text-sm font-medium text-gray-700">
+              Confirm new passphrase
+              <input type="password" required autoComplete="new-password" className={`${inputClass} mt-1`} value={confirmPassphrase} onChange={e => setConfirmPassphrase(e.target.value)} />
+            </label>
+
+            {error && (
+              <div className="p-3 bg-red-50 border border-red-100 rounded-lg flex items-start gap-2 text-sm text-red-700">
+                <AlertCircle className="w-4 h-4 flex-shrink-0 mt-0.5" /> {error}
+              </div>
+            )}
+
+            <div className="flex justify-end gap-3 pt-2">
+              <button type="button" onClick={onClose} className="px-4 py-2 text-sm font-medium text-gray-600 hover:bg-gray-100 rounded-lg">Cancel</button>
+              <button type="submit" disabled={isWorking} className="px-6 py-2 bg-primary text-white font-bold rounded-lg hover:bg-primaryDark disabled:opacity-60 flex items-center gap-2">
+                {isWorking && <Loader2 className="w-4 h-4 animate-spin" />} Change Passphrase
+              </button>
+            </div>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+};
+
+const SessionImportModal = ({
+  existing,
+  onImport,
+  onClose
+}: {
+  existing: SessionData[];
+  onImport: (sessions: SessionData[]) => Promise<void>;
+  onClose: () => void;
+}) => {
+  const [plan, setPlan] = useState<SessionImportPlan | null>(null);
+  const [strategy, setStrategy] = useState<SessionImportStrategy>('merge');
+  const [error, setError] = useState<string | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const [importedCount, setImportedCount] = useState<number | null>(null);
+
+  const handleFile = async (file: File) => {
+    setError(null);
+    setPlan(null);
+    try {
+      setPlan(planSessionImport(parseSessionExport(await file.text()), existing));
+    } catch (err) {
+      if (!(err instanceof SessionImportError)) console.error(err);
+      setError(err instanceof SessionImportError ? err.message : "This file could not be read.");
+    }
+  };
+
+  const handleImport = async () => {
+    if (!plan) return;
+    const sessions = resolveSessionImport(plan, strategy);
+    setIsImporting(true);
+    setError(null);
+    try {
+      await onImport(sessions);
+      setImportedCount(sessions.length);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Import failed. Try again.");
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const describe = (s: SessionData) => [s.fileName || "Untitled Resume", s.jobTitle, s.company].filter(Boolean).join(" • ");
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-[70] flex items-center justify-center p-4 animate-fade-in">
+      <div className="bg-white rounded-2xl shadow-2xl max-w-lg w-full p-8 relative max-h-[90vh] overflow-y-auto">
+        <button onClick={onClose} className="absolute top-4 right-4 text-gray-400 hover:text-gray-600 transition-colors">
+          <X className="w-5 h-5" />
+        </button>
+        <h2 className="text-2xl font-bold text-gray-900 mb-1">Import Sessions</h2>
+        <p className="text-gray-500 text-sm mb-6">Choose a session export (.json) from this app, on any machine.</p>
+
+        {importedCount !== null ? (
+          <div className="text-center">
+            <div className="p-3 bg-green-50 border border-green-100 rounded-lg flex items-center gap-2 text-sm text-green-700 mb-6">
+              <CheckCircle className="w-4 h-4" /> Imported {importedCount} {importedCount === 1 ? "session" : "sessions"}.
+            </div>
+            <button onClick={onClose} className="px-6 py-2 bg-primary text-white font-bold rounded-lg hover:bg-primaryDark">Done</button>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <input
+              type="file"
+              accept=".json,application/json"
+              onChange={e => { const file = e.target.files?.[0]; if (file) handleFile(file); }}
+              className="block w-full text-sm text-gray-600 file:mr-3 file:px-4 file:py-2 file:rounded-lg file:border-0 file:bg-gray-100 file:text-gray-700 file:font-medium hover:file:bg-gray-200"
+            />
+
+            {plan && (
+              <div className="text-sm text-gray-700 space-y-3">
+                <p>
+                  {plan.sessions.length} {plan.sessions.length === 1 ? "session" : "sessions"} found
+                  {plan.conflicts.length > 0 && <>, {plan.conflicts.length} already in your history</>}.
+                </p>
+                {plan.conflicts.length > 0 && (
+                  <>
+                    <ul className="border border-gray-100 rounded-lg divide-y divide-gray-100 max-h-40 overflow-y-auto">
+                      {plan.conflicts.map(({ incoming, existing: local }) => (
+                        <li key={incoming.id} className="px-3 py-2">
+                          <div className="font-medium text-gray-900">{describe(local)}</div>
+                          <div className="text-xs text-gray-500">
+                            Yours: {new Date(local.updatedAt).toLocaleString()} • In file: {new Date(incoming.updatedAt).toLocaleString()}
+                          </div>
+                        </li>
+                      ))}
+                    </ul>
+                    <label className="flex items-start gap-2 cursor-pointer">
+                      <input type="radio" checked={strategy === 'merge'} onChange={() => setStrategy('merge')} className="mt-1" />
+                      <span><span className="font-medium">Merge</span> <span className="text-gray-500">— keep whichever copy was updated most recently</span></span>
+                    </label>
+                    <label className="flex items-start gap-2 cursor-pointer">
+                      <input type="radio" checked={strategy === 'replace'} onChange={() => setStrategy('replace')} className="mt-1" />
+                      <span><span className="font-medium">Replace</span> <span className="text-gray-500">— overwrite your copies with the ones in the file</span></span>
+                    </label>
+                  </>
+                )}
+              </div>
+            )}
+
+            {error && (
+              <div className="p-3 bg-red-50 border border-red-100 rounded-lg flex items-start gap-2 text-sm text-red-700">
+                <AlertCircle className="w-4 h-4 flex-shrink-0 mt-0.5" /> {error}
+              </div>
+            )}
+
+            <div className="flex justify-end gap-3 pt-2">
+              <button onClick={onClose} className="px-4 py-2 text-sm font-medium text-gray-600 hover:bg-gray-100 rounded-lg">Cancel</button>
+              <button onClick={handleImport} disabled={!plan || isImporting} className="px-6 py-2 bg-primary text-white font-bold rounded-lg hover:bg-primaryDark disabled:opacity-60 flex items-center gap-2">
+                {isImporting && <Loader2 className="w-4 h-4 animate-spin" />} Import
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+const PromptMismatchNote = ({ message }: { message: string | null }) => message ? (
+  <p className="flex items-start gap-1.5 text-xs text-amber-700 bg-amber-50 border border-amber-100 rounded-lg px-3 py-2 mb-2">
+    <AlertCircle className="w-3.5 h-3.5 flex-shrink-0 mt-px" /> {message}
+  </p>
+) : null;
+
+const AnswerFeedbackCard = ({ feedback, promptVersion }: { feedback: AnswerFeedback; promptVersion?: string }) => (
+  <>
+    <div className="flex items-center gap-2 mb-2">
+       <div className="p-1.5 bg-blue-100 rounded-lg text-primary"><Sparkles className="w-4 h-4" /></div>
+       <h3 className="font-bold text-gray-900">AI Analysis</h3>
+    </div>
+    <PromptMismatchNote message={describePromptMismatch(promptVersion, PROMPTS.answerGrading)} />
+
+    <div className="bg-white p-6 rounded-2xl shadow-sm border border-gray-200">
+       <div className="flex items-center justify-between mb-6">
+          <div>
+             <div className="text-sm text-gray-500">Overall Score</div>
+             <div className="flex items-baseline gap-1">
+                <span className="text-4xl font-bold text-gray-900">{feedback.score}</span>
+                <span className="text-gray-400">/100</span>
+             </div>
+             <span className={`inline-block px-2 py-0.5 rounded text-xs font-bold mt-1 ${feedback.score >= 80 ? 'bg-green-100 text-green-700' : 'bg-yellow-100 text-yellow-700'}`}>
+               {feedback.score >= 80 ? 'Strong Answer' : 'Needs Work'}
+             </span>
+          </div>
+          <div className="relative w-16 h-16">
+              <svg className="w-full h-full" viewBox="0 0 36 36">
+                 <path d="M18 2.0845 a 15.9155 15.9155 0 0 1 0 31.831 a 15.9155 15.9155 0 0 1 0 -31.831" fill="none" stroke="#eee" strokeWidth="3" />
+                 <path d="M18 2.0845 a 15.9155 15.9155 0 0 1 0 31.831 a 15.9155 15.9155 0 0 1 0 -31.831" fill="none" stroke="#2563EB" strokeWidth="3" strokeDasharray={`${feedback.score}, 100`} />
+               </svg>
+          </div>
+       </div>
+
+       <div className="bg-green-50 p-4 rounded-xl mb-4">
+          <h4 className="font-bold text-green-800 text-sm mb-2 flex items-center gap-2"><ThumbsUp className="w-4 h-4" /> Strengths</h4>
+          <ul className="space-y-2">
+             {feedback.strengths.map((s, i) => (
+               <li key={i} className="flex items-start gap-2 text-sm text-green-700">
+                 <Check className="w-4 h-4 mt-0.5 flex-shrink-0" /> {s}
+               </li>
+             ))}
+          </ul>
+       </div>
+
+       <div className="bg-orange-50 p-4 rounded-xl mb-4">
+          <h4 className="font-bold text-orange-800 text-sm mb-2 flex items-center gap-2"><TrendingUp className="w-4 h-4" /> Improvements</h4>
+          <ul className="space-y-2">
+             {feedback.improvements.map((s, i) => (
+               <li key={i} className="flex items-start gap-2 text-sm text-orange-700">
+                 <span className="font-bold text-orange-500">!</span> {s}
+               </li>
+             ))}
+          </ul>
+       </div>
+
+       <div className="bg-blue-50 p-4 rounded-xl border border-blue-100">
+          <div className="flex justify-between items-center mb-2">
+             <h4 className="font-bold text-blue-800 text-sm flex items-center gap-2"><Sparkles className="w-4 h-4" /> Revised Answer</h4>
+             <span className="text-xs text-blue-600 font-semibold cursor-pointer uppercase">Copy</span>
+          </div>
+          <p className="text-sm text-blue-800 italic leading-relaxed">"{feedback.model_answer}"</p>
+       </div>
+    </div>
+  </>
+);
+
+// Shown while an answer is being graded: the revised answer streams in before the score is ready
+const ModelAnswerDraft = ({ text, onStop }: { text: string; onStop: () => void }) => (
+  <div className="bg-blue-50 p-4 rounded-xl border border-blue-100 animate-fade-in">
+    <div className="flex justify-between items-center mb-2">
+      <h4 className="font-bold text-blue-800 text-sm flex items-center gap-2"><Loader2 className="w-4 h-4 animate-spin" /> Drafting a stronger answer...</h4>
+      <StopButton onClick={onStop} />
+    </div>
+    {text && <p className="text-sm text-blue-800 italic leading-relaxed">"{text}"</p>}
+  </div>
+);
+
+const ExportMenu = ({ content, fileName, jobTitle, documentLabel }: { content: string; fileName: string; jobTitle?: string; documentLabel: string | null }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+
+  const handleExport = async (format: ExportFormat) => {
+    setIsOpen(false);
+    setIsExporting(true);
+    try {
+      await exportDocument(content, format, exportFileName(fileName, jobTitle, documentLabel, format));
+    } catch (error) {
+      console.error(error);
+      alert("Export failed. Try again, or choose another format.");
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <button onClick={() => setIsOpen(open => !open)} disabled={isExporting} className="px-3 py-1.5 rounded-lg text-sm font-medium text-gray-600 hover:bg-gray-50 disabled:opacity-60 flex items-center gap-1">
+        {isExporting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />} Export
+      </button>
+      {isOpen && (
+        <>
+          <div className="fixed inset-0 z-10" onClick={() => setIsOpen(false)} />
+          <div className="absolute right-0 mt-1 w-40 bg-white border border-gray-200 rounded-xl shadow-lg py-1 z-20">
+            {EXPORT_FORMATS.map(({ format, label }) => (
+              <button key={format} onClick={() => handleExport(format)} className="w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-50">
+                {label}
+              </button>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+const AICacheInspector = () => {
+  const [entries, setEntries] = useState<AICacheEntry[]>(getAICacheEntries);
+  const [isOpen, setIsOpen] = useState(false);
+  const sizeOf = (entry: AICacheEntry) => JSON.stringify(entry.value).length;
+  const totalKb = Math.round(entries.reduce((sum, e) => sum + sizeOf(e), 0) / 1024);
+
+  const remove = (key: string) => {
+    deleteCachedAIResponse(key);
+    setEntries(getAICacheEntries());
+  };
+
+  const clearAll = () => {
+    clearAICache();
+    setEntries([]);
+  };
+
+  return (
+    <div className="mb-6">
+      <div className="flex items-center gap-3 mb-2">
+        <h3 className="font-bold text-gray-900 text-sm flex-1">Response cache</h3>
+        <span className="text-xs text-gray-500">{entries.length} entries • {totalKb} KB</span>
+        {entries.length > 0 && (
+          <>
+            <button onClick={() => setIsOpen(o => !o)} className="text-xs font-medium text-primary hover:underline">{isOpen ? "Hide" : "Inspect"}</button>
+            <button onClick={clearAll} className="text-xs font-medium text-error hover:underline">Clear all</button>
+          </>
+        )}
+      </div>
+      <p className="text-gray-500 text-xs mb-3">Identical requests are answered from this cache. Use Regenerate to ask the model again.</p>
+      {isOpen && (
+        <div className="border border-gray-100 rounded-lg max-h-60 overflow-y-auto divide-y divide-gray-50">
+          {entries.map(e => (
+            <div key={e.key} className="flex items-center gap-3 px-3 py-2 text-xs">
+              <div className="flex-1 min-w-0">
+                <div className="font-medium text-gray-800">{AI_TASK_LABELS[e.task] ?? e.task}</div>
+                <div className="text-gray-400 truncate">{e.promptVersion} • {e.provider}/{e.model} • {new Date(e.createdAt).toLocaleString()} • {(sizeOf(e) / 1024).toFixed(1)} KB</div>
+              </div>
+              <button onClick={() => remove(e.key)} className="text-gray-400 hover:text-error" title="Delete entry"><X className="w-4 h-4" /></button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+const AISettingsModal = ({ onClose }: { onClose: () => void }) => {
+  const [settings, setSettings] = useState<AISettings>(getAISettings);
+
+  const updateTask = (task: AITask, changes: Partial<AISettings['tasks'][AITask]>) => {
+    setSettings(prev => ({ ...prev, tasks: { ...prev.tasks, [task]: { ...prev.tasks[task], ...changes } } }));
+  };
+
+  const applyToAll = (provider: AIProviderId) => {
+    setSettings(prev => ({
+      ...prev,
+      tasks: Object.fromEntries((Object.keys(prev.tasks) as AITask[]).map(task => [task, { provider, model: defaultModelFor(provider, task) }])) as AISettings['tasks']
+    }));
+  };
+
+  const handleSave = () => {
+    saveAISettings(settings);
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-[70] flex items-center justify-center p-4 animate-fade-in">
+      <div className="bg-white rounded-2xl shadow-2xl max-w-2xl w-full p-8 relative max-h-[90vh] overflow-y-auto">
+        <button onClick={onClose} className="absolute top-4 right-4 text-gray-400 hover:text-gray-600 transition-colors">
+          <X className="w-5 h-5" />
+        </button>
+        <h2 className="text-2xl font-bold text-gray-900 mb-1">AI Settings</h2>
+        <p className="text-gray-500 text-sm mb-6">Choose the provider and model for each task.</p>
+
+        <div className="flex gap-2 mb-4 text-xs">
+          <span className="text-gray-500 py-1.5">Use everywhere:</span>
+          {Object.values(AI_PROVIDERS).map(p => (
+            <button key={p.id} onClick={() => applyToAll(p.id)} className="px-3 py-1.5 bg-gray-100 hover:bg-gray-200 rounded-lg font-medium text-gray-700">{p.label}</button>
+          ))}
+        </div>
+
+        <table className="w-full text-sm mb-6">
+          <thead>
+            <tr className="text-left text-xs uppercase tracking-wide text-gray-400 border-b border-gray-100">
+              <th className="py-2 font-medium">Task</th>
+              <th className="py-2 font-medium">Provider</th>
+              <th className="py-2 font-medium">Model</th>
+            </tr>
+          </thead>
+          <tbody>
+            {(Object.keys(AI_TASK_LABELS) as AITask[]).map(task => (
+              <tr key={task} className="border-b border-gray-50 last:border-0">
+                <td className="py-2 text-gray-700">{AI_TASK_LABELS[task]}</td>
+                <td className="py-2 pr-2">
+                  <select
+                    value={settings.tasks[task].provider}
+                    onChange={e => {
+                      const provider = e.target.value as AIProviderId;
+                      updateTask(task, { provider, model: defaultModelFor(provider, task) });
+                    }}
+                    className="w-full border border-gray-200 rounded-lg px-2 py-1.5 outline-none focus:ring-2 focus:ring-primary"
+                  >
+                    {Object.values(AI_PROVIDERS).map(p => <option key={p.id} value={p.id}>{p.label}</option>)}
+                  </select>
+                </td>
+                <td className="py-2">
+                  <input
+                    value={settings.tasks[task].model}
+                    onChange={e => updateTask(task, { model: e.target.value })}
+                    disabled={settings.tasks[task].provider === 'mock'}
+                    className="w-full border border-gray-200 rounded-lg px-2 py-1.5 outline-none focus:ring-2 focus:ring-primary disabled:bg-gray-50 disabled:text-gray-400"
+                  />
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        <h3 className="font-bold text-gray-900 text-sm mb-1">Prompt versions</h3>
+        <p className="text-gray-500 text-xs mb-3">Pin an older version to compare it against the latest. Results record the version that produced them.</p>
+        <div className="grid sm:grid-cols-2 gap-x-4 gap-y-2 mb-6">
+          {Object.values(PROMPTS).map(template => {
+            const versions = promptVersionNumbers(template);
+            const latest = versions[versions.length - 1];
+            return (
+              <label key={template.name} className="flex items-center justify-between gap-2 text-sm">
+                <span className="text-gray-700" title={template.description}>{template.name}</span>
+                <select
+                  value={settings.promptVersions[template.name] ?? latest}
+                  onChange={e => {
+                    const version = Number(e.target.value);
+                    setSettings(prev => {
+                      const { [template.name]: _, ...rest } = prev.promptVersions;
+                      return { ...prev, promptVersions: version === latest ? rest : { ...rest, [template.name]: version } };
+                    });
+                  }}
+                  disabled={versions.length < 2}
+                  className="border border-gray-200 rounded-lg px-2 py-1 outline-none focus:ring-2 focus:ring-primary disabled:bg-gray-50 disabled:text-gray-400"
+                >
+                  {versions.map(v => <option key={v} value={v}>v{v}{v === latest ? " (latest)" : ""}</option>)}
+                </select>
+              </label>
+            );
+          })}
+        </div>
+
+        <h3 className="font-bold text-gray-900 text-sm mb-3">OpenAI-compatible endpoint</h3>
+        <div className="grid sm:grid-cols-2 gap-3 mb-6">
+          <input
+            value={settings.openaiBaseUrl}
+            onChange={e => setSettings(prev => ({ ...prev, openaiBaseUrl: e.target.value }))}
+            placeholder="http://localhost:11434/v1"
+            className="border border-gray-200 rounded-lg px-3 py-2 text-sm outline-none focus:ring-2 focus:ring-primary"
+          />
+          <input
+            type="password"
+            value={settings.openaiApiKey}
+            onChange={e => setSettings(prev => ({ ...prev, openaiApiKey: e.target.value }))}
+            placeholder="API key (optional for Ollama)"
+            className="border border-gray-200 rounded-lg px-3 py-2 text-sm outline-none focus:ring-2 focus:ring-primary"
+          />
+          <p className="sm:col-span-2 text-xs text-gray-500 flex items-start gap-1.5">
+            <AlertCircle className="w-3.5 h-3.5 flex-shrink-0 mt-0.5" />
+            The API key is saved unencrypted in this browser's local storage, readable by anyone with access to this browser profile. Use a key you can revoke.
+          </p>
+        </div>
+
+        <AICacheInspector />
+
+        <div className="flex justify-end gap-3">
+          <button onClick={() => setSettings(getDefaultAISettings())} className="px-4 py-2 text-sm font-medium text-gray-600 hover:bg-gray-100 rounded-lg">Reset to Defaults</button>
+          <button onClick={handleSave} className="px-6 py-2 bg-primary text-white font-bold rounded-lg hover:bg-primaryDark">Save</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const WrittenPracticeSession = ({
+  questions,
+  jobDescription,
+  onComplete,
+  onAnswerSubmit,
+  existingAnswers
+}: {
+  questions: InterviewQuestion[];
+  jobDescription: string;
+  onComplete: () => void;
+  onAnswerSubmit: (index: number, answer: string, graded: GradedAnswer) => void;
+  existingAnswers: SessionData['writtenAnswers'];
+}) => {
+  const [currentIndex, setCurrentIndex] = useState(0);
+  const [answerText, setAnswerText] = useState("");
+  const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const [feedback, setFeedback] = useState<AnswerFeedback | null>(null);
+  const [draftAnswer, setDraftAnswer] = useState<string | null>(null);
+  const generation = useAbortController();
+
+  const currentQuestion = questions[currentIndex];
+  
+  // Load existing answer if available
+  useEffect(() => {
+    const existing = existingAnswers.find(a => a.questionIndex === currentIndex);
+    if (existing) {
+      setAnswerText(existing.answer);
+      setFeedback(existing.feedback);
+    } else {
+      setAnswerText("");
+      setFeedback(null);
+    }
+  }, [currentIndex, existingAnswers]);
+
+  const handleSubmit = async () => {
+    if (!answerText.trim()) return;
+    setIsAnalyzing(true);
+    setDraftAnswer("");
+
+    try {
+      const result = await gradeAnswer(currentQuestion, answerText, jobDescription, 'written', {
+        signal: generation.start(),
+        onText: text => setDraftAnswer(readPartialJsonStrings(text, "model_answer")[0] ?? "")
+      });
+
+      setFeedback(result.feedback);
+      onAnswerSubmit(currentIndex, answerText, result);
+    } catch (error) {
+      if (isAbortError(error)) return;
+      console.error(error);
+      alert(getErrorMessage(error, "Analysis failed. Try again."));
+    } finally {
+      setIsAnalyzing(false);
+      setDraftAnswer(null);
+    }
+  };
+
+  const handleNext = () => {
+    if (currentIndex < questions.length - 1) {
+      setCurrentIndex(prev => prev + 1);
+    } else {
+      onComplete();
+    }
+  };
+
+  return (
+    <div className="max-w-2xl mx-auto animate-fade-in pb-20">
+      <div className="flex justify-between items-center mb-6">
+        <h2 className="text-xl font-bold text-gray-900">Practice Mode</h2>
+        <span className="text-sm text-gray-500 font-medium">Question {currentIndex + 1} of {questions.length}</span>
+      </div>
+
+      <div className="bg-white p-6 rounded-2xl shadow-sm border border-gray-200 mb-6">
+        <h3 className="text-2xl font-bold text-gray-900 mb-2">{currentQuestion.question}</h3>
+        <p className="text-gray-500 text-sm mb-6">
+          Focus on your specific role, the obstacles you faced, and the outcome. Use the STAR method.
+        </p>
+
+        <div className="mb-2 flex justify-between text-xs text-gray-400 font-medium uppercase tracking-wide">
+          <span>Your Answer</span>
+          <span>{answerText.length} chars</span>
+        </div>
+        
+        <textarea
+          className="w-full h-48 p-4 border border-gray-200 rounded-xl focus:ring-2 focus:ring-primary focus:border-transparent resize-none text-gray-700 leading-relaxed"
+          placeholder="Type your answer here..."
+          value={answerText}
+          onChange={(e) => setAnswerText(e.target.value)}
+          disabled={!!feedback || isAnalyzing}
+        ></textarea>
+
+        {!feedback && (
+          <div className="mt-4 flex justify-end">
+             <button
+               onClick={handleSubmit}
+               disabled={!answerText.trim() || isAnalyzing}
+               className="px-6 py-2 bg-primary text-white rounded-lg font-medium hover:bg-primaryDark disabled:opacity-50 flex items-center gap-2"
+             >
+               {isAnalyzing ? <Loader2 className="w-4 h-4 animate-spin" /> : <Sparkles className="w-4 h-4" />}
+               {isAnalyzing ? "Analyzing..." : "Analyze Answer"}
+             </button>
+          </div>
+        )}
+      </div>
+
+      {draftAnswer !== null && <ModelAnswerDraft text={draftAnswer} onStop={generation.stop} />}
+
+      {feedback && (
+        <div className="animate-fade-in space-y-4">
+           <AnswerFeedbackCard feedback={feedback} promptVersion={existingAnswers.find(a => a.questionIndex === currentIndex)?.promptVersion} />
+           
+           <div className="flex gap-3 pt-4">
+              <button onClick={() => { setFeedback(null); }} className="flex-1 py-3 bg-gray-100 text-gray-700 font-bold rounded-lg hover:bg-gray-200">
+                 Try Again
+              </button>
+              <button onClick={handleNext} className="flex-1 py-3 bg-primary text-white font-bold rounded-lg hover:bg-primaryDark flex items-center justify-center gap-2">
+                 {currentIndex === questions.length - 1 ? "Finish Written Practice" : "Next Question"} <ArrowRight className="w-4 h-4" />
+              </button>
+           </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+const COVER_LETTER_TONES = ["Professional", "Enthusiastic", "Conversational", "Formal"];
+const COVER_LETTER_LENGTHS = [
+  { label: "Short", words: 150 },
+  { label: "Medium", words: 250 },
+  { label: "Long", words: 400 }
+];
+const COVER_LETTER_EMPHASES = ["Key Achievements", "Technical Skills", "Leadership", "Culture Fit", "Career Change"];
+
+const splitParagraphs = (content: string) => content.split(/\n\s*\n/).map(p => p.trim()).filter(Boolean);
+
+type VerbalAnswer = SessionData['verbalAnswers'][number];
+
+const getSpeechRecognition = (): any =>
+  (window as any).SpeechRecognition || (window as any).webkitSpeechRecognition || null;
+
+const DeliveryMetricsCard = ({ metrics }: { metrics: DeliveryMetrics }) => {
+  const paceLabel = metrics.wordsPerMinute < 110 ? "Slow" : metrics.wordsPerMinute > 170 ? "Fast" : "Good pace";
+  const topFillers = Object.entries(metrics.fillerCounts).sort((a, b) => b[1] - a[1]).slice(0, 4);
+  return (
+    <div className="bg-white p-6 rounded-2xl shadow-sm border border-gray-200">
+      <h4 className="font-bold text-gray-900 text-sm mb-4 flex items-center gap-2"><Mic className="w-4 h-4 text-orange-600" /> Delivery</h4>
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-4 text-center">
+        <div>
+          <div className="text-2xl font-bold text-gray-900">{metrics.wordsPerMinute}</div>
+          <div className="text-xs text-gray-500">words / min • {paceLabel}</div>
+        </div>
+        <div>
+          <div className="text-2xl font-bold text-gray-900">{metrics.totalFillers}</div>
+          <div className="text-xs text-gray-500">filler words</div>
+        </div>
+        <div>
+          <div className="text-2xl font-bold text-gray-900">{metrics.longPauses}</div>
+          <div className="text-xs text-gray-500">pauses ≥ {LONG_PAUSE_SECONDS}s (longest {metrics.longestPauseSeconds}s)</div>
+        </div>
+        <div>
+          <div className="text-2xl font-bold text-gray-900">{Math.floor(metrics.durationSeconds / 60)}:{String(metrics.durationSeconds % 60).padStart(2, "0")}</div>
+          <div className="text-xs text-gray-500">duration • {metrics.wordCount} words</div>
+        </div>
+      </div>
+      {topFillers.length > 0 && (
+        <div className="flex flex-wrap gap-2 mt-4 justify-center">
+          {topFillers.map(([word, count]) => (
+            <span key={word} className="px-2 py-0.5 bg-orange-50 text-orange-700 rounded text-xs font-medium">"{word}" × {count}</span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+const VerbalPracticeSession = ({
+  questions,
+  jobDescription,
+  onComplete,
+  onAnswerSubmit,
+  existingAnswers
+}: {
+  questions: InterviewQuestion[];
+  jobDescription: string;
+  onComplete: () => void;
+  onAnswerSubmit: (answer: VerbalAnswer) => void;
+  existingAnswers: VerbalAnswer[];
+}) => {
+  const speechSupported = !!getSpeechRecognition();
+  const [currentIndex, setCurrentIndex] = useState(0);
+  const [inputMode, setInputMode] = useState<'mic' | 'transcript' | 'audio'>(speechSupported ? 'mic' : 'transcript');
+  const [isRecording, setIsRecording] = useState(false);
+  const [segments, setSegments] = useState<TranscriptSegment[]>([]);
+  const [interimText, setInterimText] = useState("");
+  const [pastedTranscript, setPastedTranscript] = useState("");
+  const [pastedDuration, setPastedDuration] = useState("");
+  const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const [answer, setAnswer] = useState<VerbalAnswer | null>(null);
+  const [draftAnswer, setDraftAnswer] = useState<string | null>(null);
+  const [micError, setMicError] = useState<string | null>(null);
+  const generation = useAbortController();
+
+  const recognitionRef = useRef<any>(null);
+  const startedAtRef = useRef(0);
+  const segmentStartRef = useRef<number | null>(null);
+  const recordingRef = useRef(false);
+
+  const currentQuestion = questions[currentIndex];
+
+  useEffect(() => {
+    setAnswer(existingAnswers.find(a => a.questionIndex === currentIndex) ?? null);
+    setSegments([]);
+    setInterimText("");
+    setPastedTranscript("");
+    setPastedDuration("");
+  }, [currentIndex, existingAnswers]);
+
+  useEffect(() => () => {
+    recordingRef.current = false;
+    recognitionRef.current?.abort();
+  }, []);
+
+  const elapsed = () => (performance.now() - startedAtRef.current) / 1000;
+
+  const startRecording = () => {
+    const SpeechRecognition = getSpeechRecognition();
+    if (!SpeechRecognition) return;
+    const recognition = new SpeechRecognition();
+    recognition.continuous = true;
+    recognition.interimResults = true;
+    recognition.lang = "en-US";
+
+    recognition.onresult = (event: any) => {
+      let interim = "";
+      for (let i = event.resultIndex; i < event.results.length; i++) {
+        const result = event.results[i];
+        if (segmentStartRef.current === null) segmentStartRef.current = elapsed();
+        if (result.isFinal) {
+          const text = result[0].transcript.trim();
+          const start = segmentStartRef.current;
+          if (text) setSegments(prev => [...prev, { start, end: elapsed(), text }]);
+          segmentStartRef.current = null;
+        } else {
+          interim += result[0].transcript;
+        }
+      }
+      setInterimText(interim);
+    };
+    recognition.onerror = (event: any) => {
+      if (event.error === "not-allowed" || event.error === "audio-capture") {
+        recordingRef.current = false;
+        setIsRecording(false);
+        setMicError("No microphone available. Paste a transcript or upload a recording instead.");
+        setInputMode('transcript');
+      }
+    };
+    // Chrome ends continuous recognition after a stretch of silence; keep listening until stopped
+    recognition.onend = () => { if (recordingRef.current) recognition.start(); };
+
+    recognitionRef.current = recognition;
+    startedAtRef.current = performance.now();
+    segmentStartRef.current = null;
+    recordingRef.current = true;
+    setSegments([]);
+    setInterimText("");
+    setMicError(null);
+    setIsRecording(true);
+    recognition.start();
+  };
+
+  const submit = async (finalSegments: TranscriptSegment[], durationSeconds?: number) => {
+    const transcript = finalSegments.map(s => s.text).join(" ").trim();
+    if (!transcript) {
+      // An upload has already switched to analyzing while it was transcribed
+      setIsAnalyzing(false);
+      alert("No speech was heard in that answer. Try recording it again.");
+      return;
+    }
+    setIsAnalyzing(true);
+    setDraftAnswer("");
+    try {
+      const metrics = computeDeliveryMetrics(finalSegments, durationSeconds);
+      const { feedback, promptVersion } = await gradeAnswer(currentQuestion, transcript, jobDescription, 'verbal', {
+        signal: generation.start(),
+        onText: text => setDraftAnswer(readPartialJsonStrings(text, "model_answer")[0] ?? "")
+      });
+      const result = { questionIndex: currentIndex, transcript, feedback, metrics, promptVersion, answeredAt: Date.now() };
+      setAnswer(result);
+      onAnswerSubmit(result);
+    } catch (error) {
+      if (isAbortError(error)) return;
+      console.error(error);
+      alert(getErrorMessage(error, "Analysis failed. Try again."));
+    } finally {
+      setIsAnalyzing(false);
+      setDraftAnswer(null);
+    }
+  };
+
+  const stopRecording = () => {
+    recordingRef.current = false;
+    recognitionRef.current?.stop();
+    setIsRecording(false);
+    const duration = elapsed();
+    // Keep whatever was still interim when the user hit stop
+    const pending = interimText.trim() ? [{ start: segmentStartRef.current ?? duration, end: duration, text: interimText.trim() }] : [];
+    setInterimText("");
+    submit([...segments, ...pending], duration);
+  };
+
+  const submitPastedTranscript = () => {
+    const duration = parseFloat(pastedDuration);
+    submit(parseTimedTranscript(pastedTranscript, Number.isFinite(duration) ? duration : undefined), Number.isFinite(duration) ? duration : undefined);
+  };
+
+  const handleAudioUpload = async (file: File) => {
+    setIsAnalyzing(true);
+    try {
+      const [audioSegments, duration] = await Promise.all([transcribeAudio(file, { signal: generation.start() }), getAudioDuration(file)]);
+      await submit(audioSegments, duration);
+    } catch (error) {
+      if (isAbortError(error)) {
+        setIsAnalyzing(false);
+        return;
+      }
+      console.error(error);
+      alert(getErrorMessage(error, "Could not transcribe that recording. Try again."));
+      setIsAnalyzing(false);
+    }
+  };
+
+  const handleNext = () => {
+    if (currentIndex < questions.length - 1) {
+      setCurrentIndex(prev => prev + 1);
+    } else {
+      onComplete();
+    }
+  };
+
+  const liveTranscript = [...segments.map(s => s.text), interimText].join(" ").trim();
+
+  return (
+    <div className="max-w-2xl mx-auto animate-fade-in pb-20">
+      <div className="flex justify-between items-center mb-6">
+        <h2 className="text-xl font-bold text-gray-900">Verbal Practice</h2>
+        <span className="text-sm text-gray-500 font-medium">Question {currentIndex + 1} of {questions.length}</span>
+      </div>
+
+      <div className="bg-white p-6 rounded-2xl shadow-sm border border-gray-200 mb-6">
+        <h3 className="text-2xl font-bold text-gray-900 mb-2">{currentQuestion.question}</h3>
+        <p className="text-gray-500 text-sm mb-6">Answer out loud as you would in the interview. We'll transcribe it and measure your pace, filler words and pauses.</p>
+
+        {!answer && (
+          <>
+            <div className="flex gap-2 mb-4 text-xs font-medium">
+              {speechSupported && (
+                <button onClick={() => setInputMode('mic')} className={`px-3 py-1.5 rounded-lg ${inputMode === 'mic' ? 'bg-gray-900 text-white' : 'bg-gray-100 text-gray-600'}`}>Microphone</button>
+              )}
+              <button onClick={() => setInputMode('audio')} disabled={isRecording} className={`px-3 py-1.5 rounded-lg ${inputMode === 'audio' ? 'bg-gray-900 text-white' : 'bg-gray-100 text-gray-600'}`}>Upload Recording</button>
+              <button onClick={() => setInputMode('transcript')} disabled={isRecording} className={`px-3 py-1.5 rounded-lg ${inputMode === 'transcript' ? 'bg-gray-900 text-white' : 'bg-gray-100 text-gray-600'}`}>Paste Transcript</button>
+            </div>
+
+            {micError && <p className="text-sm text-orange-700 bg-orange-50 p-3 rounded-lg mb-4 flex items-center gap-2"><MicOff className="w-4 h-4" /> {micError}</p>}
+
+            {inputMode === 'mic' && (
+              <div className="text-center">
+                <div className="min-h-[120px] p-4 bg-gray-50 rounded-xl text-left text-gray-700 leading-relaxed mb-4">
+                  {liveTranscript || <span className="text-gray-400">{isRecording ? "Listening..." : "Your transcript will appear here."}</span>}
+                </div>
+                {isRecording ? (
+                  <button onClick={stopRecording} className="px-6 py-3 bg-red-600 hover:bg-red-700 text-white font-bold rounded-full inline-flex items-center gap-2">
+                    <Square className="w-4 h-4 fill-current" /> Stop & Analyze
+                  </button>
+                ) : (
+                  <button onClick={startRecording} disabled={isAnalyzing} className="px-6 py-3 bg-orange-600 hover:bg-orange-700 text-white font-bold rounded-full inline-flex items-center gap-2 disabled:opacity-50">
+                    {isAnalyzing ? <Loader2 className="w-4 h-4 animate-spin" /> : <Mic className="w-4 h-4" />}
+                    {isAnalyzing ? "Analyzing..." : "Start Recording"}
+                  </button>
+                )}
+              </div>
+            )}
+
+            {inputMode === 'audio' && (
+              <div className="border-2 border-dashed border-gray-300 rounded-xl p-8 text-center relative hover:border-primary transition-colors">
+                <input type="file" accept="audio/*" disabled={isAnalyzing} onChange={e => e.target.files?.[0] && handleAudioUpload(e.target.files[0])} className="absolute inset-0 w-full h-full opacity-0 cursor-pointer" />
+                {isAnalyzing ? <Loader2 className="w-8 h-8 text-primary mx-auto mb-2 animate-spin" /> : <Upload className="w-8 h-8 text-gray-400 mx-auto mb-2" />}
+                <p className="text-sm text-gray-600">{isAnalyzing ? "Transcribing and analyzing..." : "Upload a recorded answer (WAV, MP3, M4A, WebM)"}</p>
+              </div>
+            )}
+            {inputMode === 'audio' && isAnalyzing && draftAnswer === null && (
+              <div className="flex justify-center mt-3">
+                <StopButton onClick={generation.stop} />
+              </div>
+            )}
+
+            {inputMode === 'transcript' && (
+              <div>
+                <textarea
+                  className="w-full h-40 p-4 border border-gray-200 rounded-xl focus:ring-2 focus:ring-primary focus:border-transparent resize-none text-gray-700 leading-relaxed"
+                  placeholder={"Paste what you said. Optionally prefix lines with timestamps:\n[0:00] So, um, in my last role...\n[0:12] We had a deadline..."}
+                  value={pastedTranscript}
+                  onChange={e => setPastedTranscript(e.target.value)}
+                />
+                <div className="mt-3 flex items-center justify-between gap-3">
+                  <label className="text-sm text-gray-600 flex items-center gap-2">
+                    Duration (seconds)
+                    <input type="number" min="0" value={pastedDuration} onChange={e => setPastedDuration(e.target.value)} className="w-24 border border-gray-200 rounded-lg px-2 py-1 outline-none focus:ring-2 focus:ring-primary" />
+                  </label>
+                  <button onClick={submitPastedTranscript} disabled={!pastedTranscript.trim() || isAnalyzing} className="px-6 py-2 bg-primary text-white rounded-lg font-medium hover:bg-primaryDark disabled:opacity-50 flex items-center gap-2">
+                    {isAnalyzing ? <Loader2 className="w-4 h-4 animate-spin" /> : <Sparkles className="w-4 h-4" />}
+                    {isAnalyzing ? "Analyzing..." : "Analyze Answer"}
+                  </button>
+                </div>
+              </div>
+            )}
+          </>
+        )}
+
+        {answer && (
+          <div className="p-4 bg-gray-50 rounded-xl text-gray-700 leading-relaxed text-sm">"{answer.transcript}"</div>
+        )}
+      </div>
+
+      {draftAnswer !== null && <ModelAnswerDraft text={draftAnswer} onStop={generation.stop} />}
+
+      {answer && (
+        <div className="animate-fade-in space-y-4">
+          {answer.metrics && <DeliveryMetricsCard metrics={answer.metrics} />}
+          {answer.feedback && <AnswerFeedbackCard feedback={answer.feedback} promptVersion={answer.promptVersion} />}
+
+          <div className="flex gap-3 pt-4">
+            <button onClick={() => setAnswer(null)} className="flex-1 py-3 bg-gray-100 text-gray-700 font-bold rounded-lg hover:bg-gray-200">
+              Try Again
+            </button>
+            <button onClick={handleNext} className="flex-1 py-3 bg-primary text-white font-bold rounded-lg hover:bg-primaryDark flex items-center justify-center gap-2">
+              {currentIndex === questions.length - 1 ? "Finish Verbal Practice" : "Next Question"} <ArrowRight className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+const CoverLetterBuilder = ({
+  resumeText,
+  jobDescription,
+  letters,
+  onChange,
+  onComplete,
+  fileName,
+  jobTitle
+}: {
+  resumeText: string;
+  jobDescription: string;
+  letters: CoverLetterVersion[];
+  // Takes an updater so a generation that finishes late applies to the letters as they are by then
+  onChange: (update: (letters: CoverLetterVersion[]) => CoverLetterVersion[]) => void;
+  onComplete: () => void;
+  fileName: string;
+  jobTitle?: string;
+}) => {
+  const [tone, setTone] = useState(COVER_LETTER_TONES[0]);
+  const [length, setLength] = useState(COVER_LETTER_LENGTHS[1]);
+  const [emphasis, setEmphasis] = useState(COVER_LETTER_EMPHASES[0]);
+  const [activeId, setActiveId] = useState<string | null>(letters.find(l => l.isSelected)?.id ?? letters[0]?.id ?? null);
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [regeneratingParagraph, setRegeneratingParagraph] = useState<number | null>(null);
+  // Text streamed so far for a new letter or a regenerating paragraph
+  const [draft, setDraft] = useState<string | null>(null);
+  const [paragraphDraft, setParagraphDraft] = useState<string | null>(null);
+  const [editingContent, setEditingContent] = useState<string | null>(null);
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const generation = useAbortController();
+
+  const active = letters.find(l => l.id === activeId) ?? letters[0];
+
+  const updateLetter = (id: string, changes: Partial<CoverLetterVersion>) => {
+    onChange(prev => prev.map(l => l.id === id ? { ...l, ...changes } : l));
+  };
+
+  const handleGenerate = async () => {
+    setIsGenerating(true);
+    setDraft("");
+    try {
+      const name = `${tone} • ${length.label} • ${emphasis}`;
+      const prompt = renderPrompt(PROMPTS.coverLetter, { resumeText, jobDescription, tone, words: length.words, emphasis });
+      // Asking again with the same settings means the user wants a different letter
+      const result = await generateWithAI('cover-letter', prompt, {
+        signal: generation.start(),
+        onText: setDraft,
+        fresh: letters.some(l => l.name === name)
+      });
+      const id = crypto.randomUUID();
+      onChange(prev => [...prev, {
+        id,
+        name,
+        content: String(result).trim(),
+        isSelected: prev.length === 0,
+        promptVersion: prompt.version
+      }]);
+      setActiveId(id);
+      setEditingContent(null);
+    } catch (error) {
+      if (isAbortError(error)) return;
+      console.error(error);
+      alert(getErrorMessage(error, "Cover letter generation failed. Try again."));
+    } finally {
+      setIsGenerating(false);
+      setDraft(null);
+    }
+  };
+
+  const handleRegenerateParagraph = async (index: number) => {
+    if (!active) return;
+    const { id } = active;
+    const paragraphs = splitParagraphs(active.content);
+    setRegeneratingParagraph(index);
+    try {
+      const result = await generateWithAI(
+        'cover-letter',
+        renderPrompt(PROMPTS.coverLetterParagraph, { resumeText, jobDescription, paragraphs, index, tone }),
+        { signal: generation.start(), onText: setParagraphDraft, fresh: true }
+      );
+      // Swap the paragraph into the letter as it is now, keeping any edits made while it generated
+      onChange(prev => prev.map(l => {
+        if (l.id !== id) return l;
+        const current = splitParagraphs(l.content);
+        current[index] = String(result).trim();
+        return { ...l, content: current.join("\n\n") };
+      }));
+    } catch (error) {
+      if (isAbortError(error)) return;
+      console.error(error);
+      alert(getErrorMessage(error, "Paragraph regeneration failed. Try again."));
+    } finally {
+      setRegeneratingParagraph(null);
+      setParagraphDraft(null);
+    }
+  };
+
+  const selectLetter = (id: string) => {
+    onChange(prev => prev.map(l => ({ ...l, isSelected: l.id === id })));
+  };
+
+  const deleteLetter = (id: string) => {
+    onChange(prev => {
+      const remaining = prev.filter(l => l.id !== id);
+      if (remaining.length > 0 && !remaining.some(l => l.isSelected)) remaining[0] = { ...remaining[0], isSelected: true };
+      return remaining;
+    });
+    if (activeId === id) setActiveId(letters.find(l => l.id !== id)?.id ?? null);
+  };
+
+  return (
+    <div className="animate-fade-in pb-20">
+      <div className="flex justify-between items-center mb-6">
+        <h2 className="text-2xl font-bold text-gray-900">Cover Letters</h2>
+        <button onClick={onComplete} className="px-6 py-2 bg-primary text-white rounded-lg font-bold hover:bg-primaryDark flex items-center gap-2">
+          Done <ArrowRight className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="bg-white p-6 rounded-2xl shadow-sm border border-gray-200 mb-6 grid sm:grid-cols-4 gap-4 items-end">
+        <label className="text-sm font-medium text-gray-700">
+          Tone
+          <select value={tone} onChange={e => setTone(e.target.value)} className="mt-1 w-full border border-gray-200 rounded-lg px-3 py-2 outline-none focus:ring-2 focus:ring-primary">
+            {COVER_LETTER_TONES.map(t => <option key={t}>{t}</option>)}
+          </select>
+        </label>
+        <label className="text-sm font-medium text-gray-700">
+          Length
+          <select value={length.label} onChange={e => setLength(COVER_LETTER_LENGTHS.find(l => l.label === e.target.value)!)} className="mt-1 w-full border border-gray-200 rounded-lg px-3 py-2 outline-none focus:ring-2 focus:ring-primary">
+            {COVER_LETTER_LENGTHS.map(l => <option key={l.label} value={l.label}>{l.label} (~{l.words} words)</option>)}
+          </select>
+        </label>
+        <label className="text-sm font-medium text-gray-700">
+          Emphasis
+          <select value={emphasis} onChange={e => setEmphasis(e.target.value)} className="mt-1 w-full border border-gray-200 rounded-lg px-3 py-2 outline-none focus:ring-2 focus:ring-primary">
+            {COVER_LETTER_EMPHASES.map(e => <option key={e}>{e}</option>)}
+          </select>
+        </label>
+        {isGenerating ? (
+          <StopButton onClick={generation.stop} className="justify-center py-2" />
+        ) : (
+          <button onClick={handleGenerate} className="py-2 bg-primary text-white rounded-lg font-bold hover:bg-primaryDark flex items-center justify-center gap-2">
+            <Sparkles className="w-4 h-4" /> Generate
+          </button>
+        )}
+      </div>
+
+      {letters.length === 0 && draft === null ? (
+        <div className="text-center py-16 text-gray-500">
+          <FileCheck className="w-12 h-12 text-gray-300 mx-auto mb-4" />
+          Pick a tone, length and emphasis, then generate your first cover letter.
+        </div>
+      ) : (
+        <div className="grid md:grid-cols-[220px_1fr] gap-6">
+          <div className="space-y-2">
+            {letters.map(l => (
+              <div
+                key={l.id}
+                onClick={() => { setActiveId(l.id); setEditingContent(null); }}
+                className={`p-3 rounded-xl border cursor-pointer text-sm ${l.id === active?.id ? 'border-primary bg-blue-50' : 'border-gray-200 bg-white hover:bg-gray-50'}`}
+              >
+                {renamingId === l.id ? (
+                  <input
+                    autoFocus
+                    defaultValue={l.name}
+                    onClick={e => e.stopPropagation()}
+                    onBlur={e => { updateLetter(l.id, { name: e.target.value.trim() || l.name }); setRenamingId(null); }}
+                    onKeyDown={e => { if (e.key === 'Enter') (e.target as HTMLInputElement).blur(); }}
+                    className="w-full border border-gray-200 rounded px-2 py-1 text-sm outline-none focus:ring-2 focus:ring-primary"
+                  />
+                ) : (
+                  <div className="font-medium text-gray-900 flex items-start gap-1">
+                    {l.isSelected && <Star className="w-3 h-3 mt-1 fill-current text-yellow-400 flex-shrink-0" />}
+                    <span className="flex-1">{l.name}</span>
+                  </div>
+                )}
+                <div className="flex gap-3 mt-2 text-xs text-gray-500">
+                  <button onClick={e => { e.stopPropagation(); setRenamingId(l.id); }} className="hover:text-primary">Rename</button>
+                  {!l.isSelected && <button onClick={e => { e.stopPropagation(); selectLetter(l.id); }} className="hover:text-primary">Select</button>}
+                  <button onClick={e => { e.stopPropagation(); deleteLetter(l.id); }} className="hover:text-error">Delete</button>
+                </div>
+              </div>
+            ))}
+          </div>
+
+          {draft !== null ? (
+            <div className="bg-white rounded-2xl shadow-sm border border-gray-100">
+              <div className="px-6 py-3 border-b border-gray-100 flex items-center gap-2">
+                <h3 className="font-bold text-gray-900 flex-1">{tone} • {length.label} • {emphasis}</h3>
+                <Loader2 className="w-4 h-4 animate-spin text-primary" />
+              </div>
+              <div className="p-6 space-y-4">
+                {splitParagraphs(draft).map((paragraph, i) => (
+                  <p key={i} className="text-gray-700 leading-relaxed whitespace-pre-wrap">{paragraph}</p>
+                ))}
+              </div>
+            </div>
+          ) : active && (
+            <div className="bg-white rounded-2xl shadow-sm border border-gray-100">
+              <div className="px-6 py-3 border-b border-gray-100 flex items-center gap-2">
+                <h3 className="font-bold text-gray-900 flex-1">{active.name}</h3>
+                {editingContent === null ? (
+                  <>
+                    <button onClick={() => setEditingContent(active.content)} className="px-3 py-1.5 rounded-lg text-sm font-medium text-gray-600 hover:bg-gray-50 flex items-center gap-1">
+                      <Edit2 className="w-4 h-4" /> Edit
+                    </button>
+                    {active.isSelected && <ExportMenu content={active.content} fileName={fileName} jobTitle={jobTitle} documentLabel="Cover Letter" />}
+                    <button onClick={() => selectLetter(active.id)} disabled={active.isSelected} className="px-3 py-1.5 rounded-lg text-sm font-bold bg-primary text-white hover:bg-primaryDark disabled:bg-green-100 disabled:text-green-700 flex items-center gap-1">
+                      <Check className="w-4 h-4" /> {active.isSelected ? "Selected" : "Use This Version"}
+                    </button>
+                  </>
+                ) : (
+                  <>
+                    <button onClick={() => setEditingContent(null)} className="px-3 py-1.5 rounded-lg text-sm font-medium text-gray-600 hover:bg-gray-50">Cancel</button>
+                    <button onClick={() => { updateLetter(active.id, { content: editingContent }); setEditingContent(null); }} className="px-3 py-1.5 rounded-lg text-sm font-bold bg-primary text-white hover:bg-primaryDark flex items-center gap-1">
+                      <Save className="w-4 h-4" /> Save
+                    </button>
+                  </>
+                )}
+              </div>
+              <div className="p-6">
+                {editingContent !== null ? (
+                  <textarea
+                    className="w-full h-[500px] p-4 border border-gray-200 rounded-xl focus:ring-2 focus:ring-primary focus:border-transparent text-gray-700 leading-relaxed"
+                    value={editingContent}
+                    onChange={e => setEditingContent(e.target.value)}
+                  />
+                ) : (
+                  <div className="space-y-4">
+                    {splitParagraphs(active.content).map((paragraph, i) => (
+                      <div key={i} className="group relative rounded-lg p-2 -m-2 hover:bg-gray-50">
+                        {regeneratingParagraph === i && paragraphDraft ? (
+                          <p className="text-gray-700 leading-relaxed whitespace-pre-wrap bg-blue-50 rounded">{paragraphDraft}</p>
+                        ) : (
+                          <p className={`text-gray-700 leading-relaxed whitespace-pre-wrap ${regeneratingParagraph === i ? 'opacity-40' : ''}`}>{paragraph}</p>
+                        )}
+                        <button
+                          onClick={() => regeneratingParagraph === i ? generation.stop() : handleRegenerateParagraph(i)}
+                          disabled={regeneratingParagraph !== null && regeneratingParagraph !== i}
+                          className={`absolute top-1 right-1 p-1.5 bg-white border border-gray-200 rounded-lg text-gray-500 hover:text-primary transition-opacity disabled:opacity-0 ${regeneratingParagraph === i ? 'opacity-100' : 'opacity-0 group-hover:opacity-100'}`}
+                          title={regeneratingParagraph === i ? "Stop" : "Regenerate this paragraph"}
+                        >
+                          {regeneratingParagraph === i ? <Square className="w-4 h-4 fill-current" /> : <RefreshCw className="w-4 h-4" />}
+                        </button>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+const CandidateQuestionsBoard = ({
+  questions,
+  resumeText,
+  jobDescription,
+  skillsGap,
+  onChange,
+  onComplete
+}: {
+  questions: CandidateQuestion[];
+  resumeText: string;
+  jobDescription: string;
+  skillsGap: string[];
+  // Takes an updater so generated questions land on top of anything starred or added meanwhile
+  onChange: (update: (questions: CandidateQuestion[]) => CandidateQuestion[]) => void;
+  onComplete: () => void;
+}) => {
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [starredOnly, setStarredOnly] = useState(false);
+  const [newQuestion, setNewQuestion] = useState("");
+  const [newType, setNewType] = useState<CandidateQuestion['interviewerType']>('hiring manager');
+  const [newContext, setNewContext] = useState("");
+
+  const handleGenerate = async (fresh = false) => {
+    setIsGenerating(true);
+    try {
+      const prompt = renderPrompt(PROMPTS.candidateQuestions, { resumeText, jobDescription, skillsGap });
+      const result = await generateWithAI('candidate-questions', prompt, CANDIDATE_QUESTIONS_SCHEMA, { fresh });
+      const generated = result.questions.map(q => ({ ...q, id: crypto.randomUUID(), promptVersion: prompt.version }));
+      // Regenerating replaces suggestions but keeps anything the user starred or wrote
+      onChange(prev => [...prev.filter(q => q.isStarred || q.isCustom), ...generated]);
+    } catch (error) {
+      console.error(error);
+      alert(getErrorMessage(error, "Question generation failed. Try again."));
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  useEffect(() => {
+    if (questions.length === 0) handleGenerate();
+  }, []);
+
+  const toggleStar = (id: string) => {
+    onChange(prev => prev.map(q => q.id === id ? { ...q, isStarred: !q.isStarred } : q));
+  };
+
+  const removeQuestion = (id: string) => {
+    onChange(prev => prev.filter(q => q.id !== id));
+  };
+
+  const addQuestion = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newQuestion.trim()) return;
+    const question: CandidateQuestion = {
+      id: crypto.randomUUID(),
+      interviewerType: newType,
+      question: newQuestion.trim(),
+      context: newContext.trim(),
+      goodSignal: "",
+      badSignal: "",
+      isStarred: true,
+      isCustom: true
+    };
+    onChange(prev => [...prev, question]);
+    setNewQuestion("");
+    setNewContext("");
+  };
+
+  const visible = starredOnly ? questions.filter(q => q.isStarred) : questions;
+
+  return (
+    <div className="max-w-4xl mx-auto animate-fade-in pb-20">
+      <div className="flex flex-wrap justify-between items-center gap-4 mb-6">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900">Questions to Ask</h2>
+          <p className="text-gray-600 text-sm">Show your interest and close the deal. Star the ones you'll bring to the interview.</p>
+        </div>
+        <div className="flex items-center gap-2">
+          <button onClick={() => setStarredOnly(s => !s)} className={`px-3 py-2 rounded-lg text-sm font-medium flex items-center gap-1 ${starredOnly ? 'bg-yellow-50 text-yellow-700' : 'text-gray-600 hover:bg-gray-100'}`}>
+            <Star className={`w-4 h-4 ${starredOnly ? 'fill-current' : ''}`} /> Starred
+          </button>
+          <button onClick={() => handleGenerate(true)} disabled={isGenerating} className="px-3 py-2 rounded-lg text-sm font-medium text-gray-600 hover:bg-gray-100 flex items-center gap-1 disabled:opacity-50">
+            {isGenerating ? <Loader2 className="w-4 h-4 animate-spin" /> : <RefreshCw className="w-4 h-4" />} Regenerate
+          </button>
+          <button onClick={onComplete} className="px-6 py-2 bg-primary text-white rounded-lg font-bold hover:bg-primaryDark flex items-center gap-2">
+            Next: Mock Interview <ArrowRight className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      {isGenerating && questions.length === 0 && (
+        <div className="text-center py-16 text-gray-500"><Loader2 className="w-8 h-8 animate-spin mx-auto mb-3 text-primary" /> Researching the role...</div>
+      )}
+
+      <div className="space-y-8">
+        {INTERVIEWER_TYPES.map(type => {
+          const group = visible.filter(q => q.interviewerType === type);
+          if (group.length === 0) return null;
+          return (
+            <div key={type}>
+              <h3 className="text-xs font-bold uppercase tracking-wide text-gray-400 mb-3">For the {type}</h3>
+              <div className="space-y-3">
+                {group.map(q => (
+                  <div key={q.id} className="bg-white p-5 rounded-xl shadow-sm border border-gray-200 group">
+                    <div className="flex items-start gap-3">
+                      <button onClick={() => toggleStar(q.id)} className={q.isStarred ? 'text-yellow-400' : 'text-gray-300 hover:text-yellow-400'} title={q.isStarred ? "Unstar" : "Star"}>
+                        <Star className={`w-5 h-5 ${q.isStarred ? 'fill-current' : ''}`} />
+                      </button>
+                      <div className="flex-1">
+                        <p className="font-semibold text-gray-900">{q.question}</p>
+                        {q.context && <p className="text-sm text-gray-500 mt-1">{q.context}</p>}
+                        {(q.goodSignal || q.badSignal) && (
+                          <div className="grid sm:grid-cols-2 gap-2 mt-3 text-xs">
+                            {q.goodSignal && <div className="p-2 bg-green-50 text-green-700 rounded-lg"><span className="font-bold">Good sign:</span> {q.goodSignal}</div>}
+                            {q.badSignal && <div className="p-2 bg-red-50 text-red-700 rounded-lg"><span className="font-bold">Red flag:</span> {q.badSignal}</div>}
+                          </div>
+                        )}
+                      </div>
+                      <button onClick={() => removeQuestion(q.id)} className="text-gray-300 hover:text-error opacity-0 group-hover:opacity-100 transition-opacity" title="Remove">
+                        <X className="w-4 h-4" />
+                      </button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      <form onSubmit={addQuestion} className="mt-8 bg-gray-50 p-5 rounded-xl border border-gray-200 space-y-3">
+        <h3 className="font-bold text-gray-900 text-sm">Add Your Own</h3>
+        <div className="flex gap-3">
+          <select value={newType} onChange={e => setNewType(e.target.value as CandidateQuestion['interviewerType'])} className="border border-gray-200 rounded-lg px-3 py-2 text-sm outline-none focus:ring-2 focus:ring-primary capitalize">
+            {INTERVIEWER_TYPES.map(t => <option key={t} value={t}>{t}</option>)}
+          </select>
+          <input value={newQuestion} onChange={e => setNewQuestion(e.target.value)} placeholder="Your question..." className="flex-1 border border-gray-200 rounded-lg px-3 py-2 text-sm outline-none focus:ring-2 focus:ring-primary" />
+        </div>
+        <div className="flex gap-3">
+          <input value={newContext} onChange={e => setNewContext(e.target.value)} placeholder="Why you want to ask it (optional)" className="flex-1 border border-gray-200 rounded-lg px-3 py-2 text-sm outline-none focus:ring-2 focus:ring-primary" />
+          <button type="submit" disabled={!newQuestion.trim()} className="px-4 py-2 bg-gray-900 text-white rounded-lg text-sm font-bold hover:bg-black disabled:opacity-50">Add</button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+type TranscriptTurn = SessionData['mockInterviewTranscript'][number];
+
+interface InterviewerTurn {
+  message: string;
+  action: 'ask' | 'follow_up' | 'wrap_up';
+}
+
+const MOCK_INTERVIEW_MAX_QUESTIONS = 5;
+const MOCK_INTERVIEW_MAX_AI_TURNS = 12;
+const MOCK_INTERVIEW_COMPETENCIES = ["Communication", "Technical Depth", "STAR Structure", "Culture Fit"];
+
+const MockInterviewSession = ({
+  resumeText,
+  jobDescription,
+  questions,
+  transcript,
+  onTranscriptChange,
+  onComplete
+}: {
+  resumeText: string;
+  jobDescription: string;
+  questions: InterviewQuestion[];
+  transcript: TranscriptTurn[];
+  onTranscriptChange: (transcript: TranscriptTurn[]) => void;
+  onComplete: () => void;
+}) => {
+  const [isActive, setIsActive] = useState(false);
+  const [messages, setMessages] = useState<TranscriptTurn[]>(transcript);
+  const [isThinking, setIsThinking] = useState(false);
+  const [isListening, setIsListening] = useState(false);
+  const [isFinished, setIsFinished] = useState(false);
+  const [draft, setDraft] = useState("");
+  const recognitionRef = useRef<any>(null);
+  const draftRef = useRef("");
+  // Speech callbacks outlive the render that created them, so they read the conversation from here
+  const messagesRef = useRef<TranscriptTurn[]>(transcript);
+  // Set once the interview is ended or left, so an aborted mic or a late reply doesn't add another turn
+  const hasEndedRef = useRef(false);
+  const transcriptEndRef = useRef<HTMLDivElement>(null);
+
+  const speechSupported = !!getSpeechRecognition();
+
+  useEffect(() => { transcriptEndRef.current?.scrollIntoView({ behavior: 'smooth' }); }, [messages, isThinking]);
+
+  useEffect(() => () => {
+    hasEndedRef.current = true;
+    recognitionRef.current?.abort();
+    window.speechSynthesis.cancel();
+  }, []);
+
+  const speak = (text: string) => {
+    window.speechSynthesis.cancel();
+    const utterance = new SpeechSynthesisUtterance(text);
+    utterance.rate = 1;
+    utterance.pitch = 1;
+    window.speechSynthesis.speak(utterance);
+  };
+
+  const updateMessages = (next: TranscriptTurn[]) => {
+    messagesRef.current = next;
+    setMessages(next);
+    onTranscriptChange(next);
+  };
+
+  const requestInterviewerTurn = async (conversation: TranscriptTurn[]) => {
+    setIsThinking(true);
+    try {
+      const aiTurns = conversation.filter(m => m.role === 'ai').length;
+      const mustWrapUp = aiTurns >= MOCK_INTERVIEW_MAX_AI_TURNS - 1;
+      const turn = await generateWithAI(
+        'mock-interview',
+        renderPrompt(PROMPTS.mockInterviewer, { resumeText, jobDescription, questions, conversation, mustWrapUp }),
+        INTERVIEWER_TURN_SCHEMA
+      );
+      if (hasEndedRef.current) return;
+
+      const next = [...conversation, { role: 'ai' as const, text: turn.message }];
+      updateMessages(next);
+      speak(turn.message);
+      if (turn.action === 'wrap_up' || mustWrapUp) setIsFinished(true);
+    } catch (error) {
+      console.error(error);
+      if (!hasEndedRef.current) alert(getErrorMessage(error, "The interviewer lost connection. Try sending your answer again."));
+    } finally {
+      setIsThinking(false);
+    }
+  };
+
+  const startInterview = () => {
+    hasEndedRef.current = false;
+    setIsActive(true);
+    const last = messages[messages.length - 1];
+    if (!last || last.role === 'user') requestInterviewerTurn(messages);
+    else speak(last.text);
+  };
+
+  const sendAnswer = (text: string) => {
+    const answer = text.trim();
+    if (!answer || isThinking || isFinished) return;
+    window.speechSynthesis.cancel();
+    setDraft("");
+    draftRef.current = "";
+    const next = [...messagesRef.current, { role: 'user' as const, text: answer }];
+    updateMessages(next);
+    requestInterviewerTurn(next);
+  };
+
+  const toggleListening = () => {
+    if (isListening) {
+      recognitionRef.current?.stop();
+      return;
+    }
+    const SpeechRecognition = getSpeechRecognition();
+    if (!SpeechRecognition) return;
+    window.speechSynthesis.cancel();
+
+    const recognition = new SpeechRecognition();
+    recognition.continuous = true;
+    recognition.interimResults = true;
+    recognition.lang = "en-US";
+    const base = draftRef.current ? `${draftRef.current} ` : "";
+    recognition.onresult = (event: any) => {
+      const spoken = Array.from(event.results).map((r: any) => r[0].transcript).join("");
+      draftRef.current = base + spoken;
+      setDraft(draftRef.current);
+    };
+    recognition.onerror = (event: any) => console.error("Speech recognition error:", event.error);
+    // Stopping the mic sends the answer, like finishing your sentence in a real interview
+    recognition.onend = () => {
+      setIsListening(false);
+      if (!hasEndedRef.current) sendAnswer(draftRef.current);
+    };
+    recognitionRef.current = recognition;
+    setIsListening(true);
+    recognition.start();
+  };
+
+  const stopInterview = () => {
+    hasEndedRef.current = true;
+    recognitionRef.current?.abort();
+    setIsActive(false);
+    window.speechSynthesis.cancel();
+    onComplete();
+  };
+
+  const lastAiMessage = [...messages].reverse().find(m => m.role === 'ai');
+
+  return (
+    <div className="max-w-5xl mx-auto animate-fade-in grid md:grid-cols-[1fr_320px] gap-4">
+      <div className="flex flex-col h-[600px] bg-gray-900 rounded-2xl overflow-hidden shadow-2xl relative">
+         {/* Video Area */}
+         <div className="flex-1 relative flex items-center justify-center bg-gray-800">
+            <img 
+              src="https://images.unsplash.com/photo-1573496359142-b8d87734a5a2?auto=format&fit=crop&q=80&w=600&h=600" 
+              alt="Interviewer" 
+              className="w-48 h-48 rounded-full object-cover border-4 border-gray-700 shadow-xl opacity-90"
+            />
+            {isActive && (
+              <div className="absolute w-52 h-52 rounded-full border-2 border-primary animate-ping opacity-20"></div>
+            )}
+            
+            <div className="absolute bottom-6 left-6 right-6 text-center">
+               {isThinking ? (
+                  <div className="bg-black/60 backdrop-blur-md text-gray-300 px-4 py-2 rounded-xl inline-flex items-center gap-2 text-sm">
+                     <Loader2 className="w-4 h-4 animate-spin" /> Interviewer is thinking...
+                  </div>
+               ) : isActive && lastAiMessage && (
+                  <div className="bg-black/60 backdrop-blur-md text-white p-4 rounded-xl inline-block max-w-lg text-lg leading-relaxed shadow-lg border border-white/10">
+                     {lastAiMessage.text}
+                  </div>
+               )}
+            </div>
+         </div>
+
+         {/* Controls */}
+         <div className="bg-gray-950 p-4 flex items-center justify-center gap-3 border-t border-gray-800">
+            {!isActive ? (
+              <button onClick={startInterview} className="px-8 py-3 bg-green-600 hover:bg-green-700 text-white font-bold rounded-full flex items-center gap-2 transition-transform hover:scale-105">
+                <Play className="w-5 h-5" /> {messages.length > 0 ? "Resume Interview" : "Start Interview"}
+              </button>
+            ) : isFinished ? (
+              <button onClick={stopInterview} className="px-8 py-3 bg-primary hover:bg-primaryDark text-white font-bold rounded-full flex items-center gap-2">
+                <CheckCircle className="w-5 h-5" /> Finish Interview
+              </button>
+            ) : (
+              <>
+                {speechSupported && (
+                  <button
+                    onClick={toggleListening}
+                    disabled={isThinking}
+                    title={isListening ? "Stop and send answer" : "Answer by voice"}
+                    className={`w-12 h-12 rounded-full flex items-center justify-center text-white border flex-shrink-0 disabled:opacity-50 ${isListening ? 'bg-red-600 border-red-500 animate-pulse' : 'bg-gray-800 hover:bg-gray-700 border-gray-700'}`}
+                  >
+                    {isListening ? <MicOff className="w-5 h-5" /> : <Mic className="w-5 h-5" />}
+                  </button>
+                )}
+                <input
+                  value={draft}
+                  onChange={e => { setDraft(e.target.value); draftRef.current = e.target.value; }}
+                  onKeyDown={e => { if (e.key === 'Enter') sendAnswer(draft); }}
+                  disabled={isThinking || isListening}
+                  placeholder={isListening ? "Listening..." : "Type your answer..."}
+                  className="flex-1 bg-gray-800 border border-gray-700 rounded-full px-4 py-3 text-white text-sm outline-none focus:ring-2 focus:ring-primary disabled:opacity-60"
+                />
+                <button onClick={() => sendAnswer(draft)} disabled={!draft.trim() || isThinking || isListening} className="w-12 h-12 rounded-full bg-primary hover:bg-primaryDark flex items-center justify-center text-white flex-shrink-0 disabled:opacity-50" title="Send answer">
+                  <ArrowRight className="w-5 h-5" />
+                </button>
+                <button onClick={stopInterview} className="px-4 py-3 bg-red-600 hover:bg-red-700 text-white font-bold rounded-full flex items-center gap-2 flex-shrink-0">
+                  <Square className="w-4 h-4 fill-current" /> End
+                </button>
+              </>
+            )}
+         </div>
+         
+         {isActive && (
+           <div className="absolute top-4 right-4 bg-red-600 px-3 py-1 rounded text-xs font-bold text-white flex items-center gap-1 animate-pulse">
+              <div className="w-2 h-2 bg-white rounded-full"></div> REC
+           </div>
+         )}
+      </div>
+
+      {/* Transcript */}
+      <div className="bg-white rounded-2xl shadow-sm border border-gray-200 flex flex-col h-[600px]">
+         <div className="px-4 py-3 border-b border-gray-100 font-bold text-gray-900 text-sm flex items-center gap-2">
+            <MessageSquare className="w-4 h-4 text-primary" /> Transcript
+         </div>
+         <div className="flex-1 overflow-y-auto p-4 space-y-3">
+            {messages.length === 0 && <p className="text-sm text-gray-400 text-center mt-10">The conversation will appear here.</p>}
+            {messages.map((m, i) => (
+              <div key={i} className={`text-sm p-3 rounded-xl max-w-[90%] ${m.role === 'ai' ? 'bg-gray-100 text-gray-800' : 'bg-blue-50 text-blue-900 ml-auto'}`}>
+                 <div className="text-[10px] font-bold uppercase tracking-wide text-gray-400 mb-1">{m.role === 'ai' ? 'Interviewer' : 'You'}</div>
+                 {m.text}
+              </div>
+            ))}
+            <div ref={transcriptEndRef} />
+         </div>
+      </div>
+    </div>
+  );
+};
+
+const PRIORITY_ORDER: AnalysisResult['recommendations'][number]['priority'][] = ['high', 'medium', 'low'];
+
+const PRIORITY_STYLES: Record<string, string> = {
+  high: "bg-red-50 text-red-700 border-red-100",
+  medium: "bg-yellow-50 text-yellow-700 border-yellow-100",
+  low: "bg-gray-50 text-gray-600 border-gray-100"
+};
+
+// Maps a recommendation's free-text location onto a line of the resume
+const locateInResume = (lines: string[], location: string): number => {
+  const target = location.toLowerCase();
+  const section = Object.entries(RESUME_SECTION_HEADINGS).find(([heading]) => target.includes(heading))?.[1];
+  if (section) {
+    const headingIndex = lines.findIndex(l => detectSectionHeading(l.trim()) === section);
+    if (headingIndex >= 0) return headingIndex;
+  }
+  if (/contact|header|name|email|phone/.test(target)) return 0;
+  const quoted = target.replace(/^.*?["“']|["”']$/g, "").trim();
+  return lines.findIndex(l => quoted.length > 3 && l.toLowerCase().includes(quoted));
+};
+
+const ScoreBar = ({ label, value }: { label: string; value: number }) => (
+  <div className="text-sm">
+    <div className="flex justify-between text-gray-600 mb-1"><span>{label}</span><span className="font-medium">{value}%</span></div>
+    <div className="h-2 bg-gray-100 rounded-full overflow-hidden">
+      <div className="h-full bg-primary rounded-full" style={{ width: `${value}%` }} />
+    </div>
+  </div>
+);
+
+const AnalysisReport = ({ analysis, resumeText, jobDescription, onContinue }: { analysis: AnalysisResult; resumeText: string; jobDescription: string; onContinue: () => void }) => {
+  const [highlightedLine, setHighlightedLine] = useState<number | null>(null);
+  const localScore = useMemo(() => scoreResumeLocally(resumeText, jobDescription), [resumeText, jobDescription]);
+  const resumeLines = resumeText.split('\n');
+  const lowerResume = resumeText.toLowerCase();
+  // Sessions saved before these fields were requested don't have them
+  const keywordDensity = analysis.keyword_density ?? [];
+  const formattingIssues = analysis.formatting_issues ?? [];
+  const maxCount = Math.max(1, ...keywordDensity.map(k => k.count));
+
+  const groupedRecommendations = PRIORITY_ORDER.map(priority => {
+    const byLocation = new Map<string, AnalysisResult['recommendations']>();
+    analysis.recommendations.filter(r => r.priority === priority).forEach(r => {
+      const key = r.location || "General";
+      byLocation.set(key, [...(byLocation.get(key) ?? []), r]);
+    });
+    return { priority, byLocation };
+  }).filter(g => g.byLocation.size > 0);
+
+  const jumpToLocation = (location: string) => {
+    const index = locateInResume(resumeLines, location);
+    if (index < 0) return;
+    setHighlightedLine(index);
+    document.getElementById(`resume-line-${index}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  };
+
+  return (
+    <div className="animate-fade-in space-y-6">
+      <div className="bg-white p-8 rounded-2xl shadow-sm text-center border border-gray-100">
+        <div className="flex justify-center gap-12 mb-6">
+          <div>
+            <div className="text-5xl font-extrabold text-gray-900 mb-2">{localScore.score}%</div>
+            <p className="text-gray-500 font-medium uppercase tracking-wide text-sm">ATS Score</p>
+            <p className="text-xs text-gray-400 mt-1">Deterministic, same input = same score</p>
+          </div>
+          <div>
+            <div className="text-5xl font-extrabold text-primary mb-2">{analysis.match_score}%</div>
+            <p className="text-gray-500 font-medium uppercase tracking-wide text-sm">AI Match Score</p>
+            <p className="text-xs text-gray-400 mt-1">The AI model's read of your fit</p>
+          </div>
+        </div>
+        <p className="text-gray-600 mb-8 max-w-lg mx-auto">We've analyzed your resume against the job description. Work through the recommendations below, then head to the dashboard to keep preparing.</p>
+        <button onClick={onContinue} className="px-8 py-3 bg-gray-900 text-white rounded-lg font-bold hover:bg-black shadow-lg transition-transform hover:scale-105">
+          Go to Dashboard
+        </button>
+      </div>
+
+      <div className="bg-white p-6 rounded-2xl shadow-sm border border-gray-100">
+        <h3 className="font-bold text-gray-900 mb-4 flex items-center gap-2"><FileCheck className="w-4 h-4 text-primary" /> ATS Score Breakdown</h3>
+        <div className="grid md:grid-cols-3 gap-6 mb-6">
+          <ScoreBar label={`Keywords (${ATS_WEIGHTS.keywords * 100}%)`} value={localScore.keywordScore} />
+          <ScoreBar label={`Sections (${ATS_WEIGHTS.sections * 100}%)`} value={localScore.sectionScore} />
+          <ScoreBar label={`Formatting (${ATS_WEIGHTS.formatting * 100}%)`} value={localScore.formattingScore} />
+        </div>
+        <div className="flex flex-wrap gap-2 mb-6">
+          {localScore.keywords.map(k => (
+            <span key={k.term} title={`Weight ${k.weight}`} className={`px-3 py-1 rounded-full text-xs font-medium border ${k.matched ? 'bg-green-50 text-green-700 border-green-100' : 'bg-red-50 text-red-700 border-red-100'}`}>
+              {k.term}
+            </span>
+          ))}
+        </div>
+        <div className="grid md:grid-cols-2 gap-6 text-sm">
+          <ul className="space-y-1">
+            {localScore.sections.map(section => (
+              <li key={section.name} className="flex items-center gap-2 text-gray-700">
+                {section.found ? <Check className="w-4 h-4 text-success" /> : <X className="w-4 h-4 text-error" />} {section.name} section
+              </li>
+            ))}
+          </ul>
+          <ul className="space-y-1">
+            {localScore.formattingChecks.map(check => (
+              <li key={check.label} className="flex items-start gap-2 text-gray-700" title={check.detail}>
+                {check.passed ? <Check className="w-4 h-4 text-success flex-shrink-0 mt-0.5" /> : <X className="w-4 h-4 text-error flex-shrink-0 mt-0.5" />}
+                <span><span className="font-medium">{check.label}</span> <span className="text-gray-400">— {check.detail}</span></span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      </div>
+
+      <div className="grid md:grid-cols-2 gap-6">
+        <div className="bg-white p-6 rounded-2xl shadow-sm border border-gray-100">
+          <h3 className="font-bold text-gray-900 mb-4 flex items-center gap-2"><TrendingUp className="w-4 h-4 text-primary" /> Keyword Density</h3>
+          {keywordDensity.length === 0 ? (
+            <p className="text-sm text-gray-400">No keyword data returned.</p>
+          ) : (
+            <div className="space-y-2">
+              {[...keywordDensity].sort((a, b) => b.count - a.count).map((k, i) => (
+                <div key={i} className="flex items-center gap-3 text-sm">
+                  <span className="w-32 truncate text-gray-700" title={k.term}>{k.term}</span>
+                  <div className="flex-1 h-3 bg-gray-100 rounded-full overflow-hidden">
+                    <div className={`h-full rounded-full ${k.count === 0 ? 'bg-red-300' : 'bg-primary'}`} style={{ width: `${Math.max(4, (k.count / maxCount) * 100)}%` }} />
+                  </div>
+                  <span className="w-6 text-right font-medium text-gray-500">{k.count}</span>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="bg-white p-6 rounded-2xl shadow-sm border border-gray-100">
+          <h3 className="font-bold text-gray-900 mb-4 flex items-center gap-2"><AlertCircle className="w-4 h-4 text-error" /> Missing Keywords</h3>
+          {analysis.missing_keywords.length === 0 ? (
+            <p className="text-sm text-gray-400">Nothing missing. Nice work!</p>
+          ) : (
+            <div className="flex flex-wrap gap-2">
+              {analysis.missing_keywords.map((k, i) => (
+                <span key={i} className="px-3 py-1 bg-red-50 text-red-700 border border-red-100 rounded-full text-xs font-medium">{k}</span>
+              ))}
+            </div>
+          )}
+
+          <h3 className="font-bold text-gray-900 mt-6 mb-3 flex items-center gap-2"><Layout className="w-4 h-4 text-warning" /> Formatting Issues</h3>
+          {formattingIssues.length === 0 ? (
+            <p className="text-sm text-gray-400">No formatting problems detected.</p>
+          ) : (
+            <ul className="space-y-1">
+              {formattingIssues.map((f, i) => (
+                <li key={i} className="text-sm text-gray-700 flex items-start gap-2"><span className="font-bold text-warning">!</span> {f}</li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+
+      <div className="bg-white p-6 rounded-2xl shadow-sm border border-gray-100">
+        <h3 className="font-bold text-gray-900 mb-4 flex items-center gap-2"><Award className="w-4 h-4 text-primary" /> Skills Gap</h3>
+        {analysis.skills_gap.length === 0 ? (
+          <p className="text-sm text-gray-400">Your skills cover everything the job asks for.</p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs uppercase tracking-wide text-gray-400 border-b border-gray-100">
+                <th className="py-2 font-medium">Skill</th>
+                <th className="py-2 font-medium">Mentioned in Resume</th>
+                <th className="py-2 font-medium">Missing Keyword</th>
+              </tr>
+            </thead>
+            <tbody>
+              {analysis.skills_gap.map((skill, i) => {
+                const mentioned = lowerResume.includes(skill.toLowerCase());
+                const missing = analysis.missing_keywords.some(k => k.toLowerCase() === skill.toLowerCase());
+                return (
+                  <tr key={i} className="border-b border-gray-50 last:border-0">
+                    <td className="py-2 font-medium text-gray-900">{skill}</td>
+                    <td className="py-2">{mentioned ? <Check className="w-4 h-4 text-success" /> : <X className="w-4 h-4 text-error" />}</td>
+                    <td className="py-2">{missing ? <span className="px-2 py-0.5 bg-red-50 text-red-700 rounded text-xs">Yes</span> : <span className="text-gray-400 text-xs">No</span>}</td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      <div className="grid md:grid-cols-2 gap-6">
+        <div className="space-y-4">
+          <h3 className="font-bold text-gray-900 flex items-center gap-2"><Wand2 className="w-4 h-4 text-primary" /> Recommendations</h3>
+          {groupedRecommendations.length === 0 && <p className="text-sm text-gray-400">No recommendations returned.</p>}
+          {groupedRecommendations.map(group => (
+            <div key={group.priority} className={`p-4 rounded-xl border ${PRIORITY_STYLES[group.priority]}`}>
+              <div className="text-xs font-bold uppercase tracking-wide mb-3">{group.priority} priority</div>
+              {Array.from(group.byLocation.entries()).map(([location, recs]) => (
+                <div key={location} className="mb-3 last:mb-0">
+                  <button onClick={() => jumpToLocation(location)} className="text-xs font-semibold flex items-center gap-1 hover:underline mb-1">
+                    <LinkIcon className="w-3 h-3" /> {location}
+                  </button>
+                  <ul className="space-y-1">
+                    {recs.map((r, i) => <li key={i} className="text-sm text-gray-700">{r.suggestion}</li>)}
+                  </ul>
+                </div>
+              ))}
+            </div>
+          ))}
+        </div>
+
+        <div className="bg-white rounded-2xl shadow-sm border border-gray-100 flex flex-col max-h-[600px]">
+          <div className="px-6 py-4 border-b border-gray-100 font-bold text-gray-900 flex items-center gap-2"><FileText className="w-4 h-4 text-primary" /> Your Resume</div>
+          <div className="overflow-y-auto p-6 text-sm font-mono text-gray-700">
+            {resumeLines.map((line, i) => (
+              <div key={i} id={`resume-line-${i}`} className={`whitespace-pre-wrap px-1 rounded transition-colors ${highlightedLine === i ? 'bg-yellow-100' : ''}`}>{line || ' '}</div>
+            ))}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const RESUME_VARIANTS = [
+  { name: "Keyword-Heavy", focus: "Work every missing keyword and skill from the job description naturally into the summary, skills and experience bullets to maximize ATS matching." },
+  { name: "Concise", focus: "Tighten to one page: short impact-first bullets, strong verbs, quantified results, no filler." },
+  { name: "Leadership-Focused", focus: "Foreground ownership, mentoring, cross-team influence and decisions made, reframing bullets around leadership impact." }
+];
+
+const ResumeDiffView = ({ original, revised }: { original: string; revised: string }) => {
+  const rows = useMemo(() => diffLines(original, revised), [original, revised]);
+  const cellStyle = (row: DiffRow, side: 'left' | 'right') => {
+    if (row.type === 'same') return 'text-gray-600';
+    if (side === 'left') return row.left === null ? 'bg-gray-50' : 'bg-red-50 text-red-800';
+    return row.right === null ? 'bg-gray-50' : 'bg-green-50 text-green-800';
+  };
+
+  return (
+    <div className="border border-gray-200 rounded-xl overflow-hidden text-xs font-mono">
+      <div className="grid grid-cols-2 bg-gray-50 border-b border-gray-200 font-sans font-bold text-gray-700">
+        <div className="px-4 py-2 border-r border-gray-200">Original</div>
+        <div className="px-4 py-2">Optimized</div>
+      </div>
+      <div className="max-h-[600px] overflow-y-auto">
+        {rows.map((row, i) => (
+          <div key={i} className="grid grid-cols-2">
+            <div className={`px-4 py-0.5 whitespace-pre-wrap border-r border-gray-200 ${cellStyle(row, 'left')}`}>{row.left ?? ''}</div>
+            <div className={`px-4 py-0.5 whitespace-pre-wrap ${cellStyle(row, 'right')}`}>{row.right ?? ''}</div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+const OptimizedResumes = ({
+  versions,
+  originalText,
+  editingContent,
+  onEditingChange,
+  onGenerate,
+  onChange,
+  streamingDrafts,
+  onStop,
+  fileName,
+  jobTitle
+}: {
+  versions: ResumeVersion[];
+  originalText: string;
+  editingContent: string | null;
+  onEditingChange: (content: string | null) => void;
+  onGenerate: (fresh: boolean) => void;
+  onChange: (versions: ResumeVersion[]) => void;
+  streamingDrafts: { name: string; content: string }[] | null;
+  onStop: () => void;
+  fileName: string;
+  jobTitle?: string;
+}) => {
+  const [tabIndex, setTabIndex] = useState(Math.max(0, versions.findIndex(v => v.isSelected)));
+  const [showDiff, setShowDiff] = useState(false);
+  // A regenerate can return fewer drafts than before
+  const activeIndex = Math.min(tabIndex, Math.max(0, versions.length - 1));
+  const active = versions[activeIndex];
+
+  if (streamingDrafts) {
+    const writing = streamingDrafts[streamingDrafts.length - 1];
+    return (
+      <div className="space-y-4">
+        <div className="flex flex-wrap items-center gap-2">
+          {streamingDrafts.map((d, i) => (
+            <span key={i} className={`px-4 py-2 rounded-lg text-sm font-medium flex items-center gap-2 ${d === writing ? 'bg-gray-900 text-white' : 'bg-white border border-gray-200 text-gray-600'}`}>
+              {d === writing ? <Loader2 className="w-3 h-3 animate-spin" /> : <Check className="w-3 h-3 text-green-500" />} {d.name}
+            </span>
+          ))}
+          <StopButton onClick={onStop} className="ml-auto" />
+        </div>
+        <div className="bg-white rounded-2xl shadow-sm border border-gray-100 p-6 min-h-[200px]">
+          {writing
+            ? <SimpleMarkdownRenderer content={writing.content} />
+            : <p className="text-gray-400 text-sm flex items-center gap-2"><Loader2 className="w-4 h-4 animate-spin" /> Writing {RESUME_VARIANTS.length} drafts...</p>}
+        </div>
+      </div>
+    );
+  }
+
+  if (versions.length === 0) {
+    return (
+      <div className="bg-white p-10 rounded-2xl shadow-sm border border-gray-100 text-center">
+        <div className="w-16 h-16 bg-blue-100 rounded-full flex items-center justify-center mx-auto mb-4">
+          <Wand2 className="w-8 h-8 text-primary" />
+        </div>
+        <h3 className="text-xl font-bold text-gray-900 mb-2">Generate Optimized Resumes</h3>
+        <p className="text-gray-600 mb-6 max-w-md mx-auto">We'll apply the analysis recommendations and write {RESUME_VARIANTS.length} drafts: {RESUME_VARIANTS.map(v => v.name).join(", ")}.</p>
+        <button onClick={() => onGenerate(false)} className="px-8 py-3 bg-primary text-white rounded-lg font-bold hover:bg-primaryDark flex items-center gap-2 mx-auto">
+          <Sparkles className="w-4 h-4" /> Generate Drafts
+        </button>
+      </div>
+    );
+  }
+
+  const saveEdit = () => {
+    if (editingContent === null) return;
+    onChange(versions.map((v, i) => i === activeIndex ? { ...v, content: editingContent } : v));
+    onEditingChange(null);
+  };
+
+  const selectActive = () => {
+    onChange(versions.map((v, i) => ({ ...v, isSelected: i === activeIndex })));
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-2">
+        {versions.map((v, i) => (
+          <button
+            key={v.id}
+            onClick={() => { setTabIndex(i); onEditingChange(null); }}
+            className={`px-4 py-2 rounded-lg text-sm font-medium flex items-center gap-2 transition-colors ${i === activeIndex ? 'bg-gray-900 text-white' : 'bg-white border border-gray-200 text-gray-600 hover:bg-gray-50'}`}
+          >
+            {v.isSelected && <Star className="w-3 h-3 fill-current text-yellow-400" />} {v.name}
+          </button>
+        ))}
+        <button onClick={() => onGenerate(true)} className="ml-auto px-3 py-2 text-sm text-gray-500 hover:text-primary flex items-center gap-1">
+          <RefreshCw className="w-4 h-4" /> Regenerate
+        </button>
+      </div>
+
+      <div className="bg-white rounded-2xl shadow-sm border border-gray-100">
+        <div className="px-6 py-3 border-b border-gray-100 flex items-center gap-2">
+          <h3 className="font-bold text-gray-900 flex-1">{active.name}</h3>
+          {editingContent === null ? (
+            <>
+              <button onClick={() => setShowDiff(d => !d)} className={`px-3 py-1.5 rounded-lg text-sm font-medium flex items-center gap-1 ${showDiff ? 'bg-blue-50 text-primary' : 'text-gray-600 hover:bg-gray-50'}`}>
+                <Layout className="w-4 h-4" /> Compare
+              </button>
+              <button onClick={() => onEditingChange(active.content)} className="px-3 py-1.5 rounded-lg text-sm font-medium text-gray-600 hover:bg-gray-50 flex items-center gap-1">
+                <Edit2 className="w-4 h-4" /> Edit
+              </button>
+              {active.isSelected && <ExportMenu content={active.content} fileName={fileName} jobTitle={jobTitle} documentLabel={null} />}
+              <button onClick={selectActive} disabled={active.isSelected} className="px-3 py-1.5 rounded-lg text-sm font-bold bg-primary text-white hover:bg-primaryDark disabled:bg-green-100 disabled:text-green-700 flex items-center gap-1">
+                <Check className="w-4 h-4" /> {active.isSelected ? "Selected" : "Use This Version"}
+              </button>
+            </>
+          ) : (
+            <>
+              <button onClick={() => onEditingChange(null)} className="px-3 py-1.5 rounded-lg text-sm font-medium text-gray-600 hover:bg-gray-50">Cancel</button>
+              <button onClick={saveEdit} className="px-3 py-1.5 rounded-lg text-sm font-bold bg-primary text-white hover:bg-primaryDark flex items-center gap-1">
+                <Save className="w-4 h-4" /> Save
+              </button>
+            </>
+          )}
+        </div>
+        <div className="p-6">
+          {editingContent !== null ? (
+            <textarea
+              className="w-full h-[600px] p-4 border border-gray-200 rounded-xl focus:ring-2 focus:ring-primary focus:border-transparent font-mono text-sm text-gray-700"
+              value={editingContent}
+              onChange={e => onEditingChange(e.target.value)}
+            />
+          ) : showDiff ? (
+            <ResumeDiffView original={originalText} revised={active.content} />
+          ) : (
+            <SimpleMarkdownRenderer content={active.content} />
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const HIRING_RECOMMENDATION_STYLES: Record<MockInterviewFeedback['recommendation'], string> = {
+  'strong hire': "bg-green-100 text-green-800",
+  'hire': "bg-green-50 text-green-700",
+  'lean no hire': "bg-yellow-100 text-yellow-800",
+  'no hire': "bg-red-100 text-red-700"
+};
+
+const MockInterviewReport = ({
+  transcript,
+  feedback,
+  onContinue
+}: {
+  transcript: TranscriptTurn[];
+  feedback: MockInterviewFeedback;
+  onContinue: () => void;
+}) => {
+  const annotationsByTurn = new Map(feedback.annotations.map(a => [a.turnIndex, a]));
+  const highlight = (label: string, pick: MockInterviewFeedback['strongestAnswer'], style: string) => (
+    <div className={`p-4 rounded-xl ${style}`}>
+      <h4 className="font-bold text-sm mb-2">{label}</h4>
+      <p className="text-sm italic mb-2">"{transcript[pick.turnIndex]?.text ?? "—"}"</p>
+      <p className="text-sm">{pick.reason}</p>
+    </div>
+  );
+
+  return (
+    <div className="max-w-4xl mx-auto animate-fade-in space-y-6 pb-20">
+      <div className="bg-white p-8 rounded-2xl shadow-sm border border-gray-100">
+        <div className="flex items-start justify-between gap-6 mb-4">
+          <div>
+            <h2 className="text-2xl font-bold text-gray-900">Interview Debrief</h2>
+            <p className="text-gray-500 text-sm">What the hiring manager would write after your interview.</p>
+          </div>
+          <span className={`px-3 py-1 rounded-full text-sm font-bold uppercase tracking-wide ${HIRING_RECOMMENDATION_STYLES[feedback.recommendation]}`}>
+            {feedback.recommendation}
+          </span>
+        </div>
+        <p className="text-gray-700 leading-relaxed italic">"{feedback.verdict}"</p>
+      </div>
+
+      <div className="bg-white p-6 rounded-2xl shadow-sm border border-gray-100">
+        <h3 className="font-bold text-gray-900 mb-4 flex items-center gap-2"><Award className="w-4 h-4 text-primary" /> Competency Rubric</h3>
+        <div className="space-y-4">
+          {feedback.rubric.map(r => (
+            <div key={r.competency}>
+              <ScoreBar label={r.competency} value={r.score} />
+              <p className="text-xs text-gray-500 mt-1">{r.comment}</p>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid md:grid-cols-2 gap-6">
+        {highlight("Strongest Answer", feedback.strongestAnswer, "bg-green-50 text-green-800")}
+        {highlight("Weakest Answer", feedback.weakestAnswer, "bg-orange-50 text-orange-800")}
+      </div>
+
+      <div className="bg-white p-6 rounded-2xl shadow-sm border border-gray-100">
+        <h3 className="font-bold text-gray-900 mb-4 flex items-center gap-2"><MessageSquare className="w-4 h-4 text-primary" /> Annotated Transcript</h3>
+        <div className="space-y-3">
+          {transcript.map((turn, i) => {
+            const annotation = annotationsByTurn.get(i);
+            return (
+              <div key={i} className={`text-sm ${turn.role === 'user' ? 'pl-6' : ''}`}>
+                <div className="text-[10px] font-bold uppercase tracking-wide text-gray-400 mb-1">{turn.role === 'ai' ? 'Interviewer' : 'You'}</div>
+                <p className={turn.role === 'ai' ? 'text-gray-500' : 'text-gray-800'}>{turn.text}</p>
+                {annotation && (
+                  <p className={`mt-1 text-xs px-3 py-2 rounded-lg ${annotation.sentiment === 'positive' ? 'bg-green-50 text-green-700' : annotation.sentiment === 'negative' ? 'bg-orange-50 text-orange-700' : 'bg-gray-50 text-gray-600'}`}>
+                    {annotation.note}
+                  </p>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+
+      <div className="flex justify-end">
+        <button onClick={onContinue} className="px-8 py-3 bg-primary text-white rounded-lg font-bold hover:bg-primaryDark flex items-center gap-2">
+          Continue to Summary <ArrowRight className="w-4 h-4" />
+        </button>
+      </div>
+    </div>
+  );
+};
+
+const SessionSummaryReport = ({ session, onSelectStep }: { session: SessionData; onSelectStep: (step: Step) => void }) => {
+  const summary = useMemo(() => summarizeSession(session), [session]);
+  const role = [session.jobTitle, session.company].filter(Boolean).join(" at ");
+  const prepPackName = exportFileName(session.fileName, session.jobTitle, "Interview Prep Pack", "html");
+  const stat = (value: React.ReactNode, label: string) => (
+    <div className="bg-white p-5 rounded-2xl shadow-sm border border-gray-100 text-center">
+      <div className="text-3xl font-extrabold text-gray-900 capitalize">{value}</div>
+      <div className="text-xs text-gray-500 font-medium uppercase tracking-wide mt-1">{label}</div>
+    </div>
+  );
+  const emptyState = (text: string, step: Step, action: string) => (
+    <p className="text-sm text-gray-400">
+      {text} <button onClick={() => onSelectStep(step)} className="text-primary font-medium hover:underline">{action}</button>
+    </p>
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white p-8 rounded-2xl shadow-sm border border-gray-100 flex flex-wrap items-center gap-6">
+        <div className="w-14 h-14 bg-green-100 rounded-full flex items-center justify-center flex-shrink-0">
+          <CheckCircle className="w-7 h-7 text-green-600" />
+        </div>
+        <div className="flex-1 min-w-[200px]">
+          <h2 className="text-2xl font-bold text-gray-900">Session Summary</h2>
+          <p className="text-gray-500 text-sm">{role || "Everything you prepared, in one place."}</p>
+        </div>
+        <div className="flex gap-2">
+          <button onClick={() => printHtml(renderPrepPackHtml(session, summary))} className="px-4 py-2 bg-primary text-white rounded-lg font-bold hover:bg-primaryDark flex items-center gap-2 text-sm">
+            <FileText className="w-4 h-4" /> Print / Save PDF
+          </button>
+          <button
+            onClick={() => downloadBlob(new Blob([renderPrepPackHtml(session, summary)], { type: "text/html;charset=utf-8" }), prepPackName)}
+            className="px-4 py-2 border border-gray-200 text-gray-700 rounded-lg font-medium hover:bg-gray-50 flex items-center gap-2 text-sm"
+            title="Download the interview prep pack as a web page"
+          >
+            <Download className="w-4 h-4" /> HTML
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        {stat(summary.matchScore !== null ? `${summary.matchScore}%` : "—", "Resume Match")}
+        {stat(summary.averageScore ?? "—", "Avg. Answer Score")}
+        {stat(summary.answerCount, "Answers Practiced")}
+        {stat(session.mockInterviewFeedback?.recommendation ?? "—", "Mock Interview")}
+      </div>
+
+      {summary.gradingVersions.length > 1 && (
+        <PromptMismatchNote message={`These answers were graded by different prompt versions (${summary.gradingVersions.join(", ")}), so their scores aren't strictly comparable.`} />
+      )}
+
+      <div className="grid md:grid-cols-2 gap-6">
+        <div className="bg-white p-6 rounded-2xl shadow-sm border border-gray-100">
+          <h3 className="font-bold text-gray-900 mb-4 flex items-center gap-2"><Award className="w-4 h-4 text-primary" /> Scores by Question Type</h3>
+          {summary.scoresByType.length === 0 ? emptyState("No graded answers yet.", 'written-practice', "Start practicing") : (
+            <div className="space-y-4">
+              {summary.scoresByType.map(t => (
+                <div key={t.type}>
+                  <ScoreBar label={`${t.type.charAt(0).toUpperCase()}${t.type.slice(1)} (${t.count} ${t.count === 1 ? "answer" : "answers"})`} value={t.average} />
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="bg-white p-6 rounded-2xl shadow-sm border border-gray-100">
+          <h3 className="font-bold text-gray-900 mb-4 flex items-center gap-2"><TrendingUp className="w-4 h-4 text-primary" /> Focus Areas</h3>
+          {summary.themes.length === 0 ? <p className="text-sm text-gray-400">Improvement themes show up here once answers are graded.</p> : (
+            <ul className="space-y-3">
+              {summary.themes.slice(0, 5).map(t => (
+                <li key={t.theme} className="text-sm">
+                  <div className="font-medium text-gray-900 flex items-center gap-2">
+                    {t.theme}
+                    {t.count > 1 && <span className="px-2 py-0.5 bg-orange-50 text-orange-700 rounded-full text-xs">{t.count}×</span>}
+                  </div>
+                  <p className="text-gray-500 text-xs mt-0.5">{t.examples[0]}</p>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+
+      {session.analysis && (session.analysis.missing_keywords.length > 0 || session.analysis.skills_gap.length > 0) && (
+        <div className="bg-white p-6 rounded-2xl shadow-sm border border-gray-100">
+          <h3 className="font-bold text-gray-900 mb-4 flex items-center gap-2"><AlertCircle className="w-4 h-4 text-error" /> Gaps to Address</h3>
+          <div className="flex flex-wrap gap-2">
+            {[...new Set([...session.analysis.missing_keywords, ...session.analysis.skills_gap])].map(k => (
+              <span key={k} className="px-3 py-1 bg-red-50 text-red-700 border border-red-100 rounded-full text-xs font-medium">{k}</span>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div className="grid md:grid-cols-2 gap-6">
+        <div className="bg-white p-6 rounded-2xl shadow-sm border border-gray-100">
+          <h3 className="font-bold text-gray-900 mb-4 flex items-center gap-2"><HelpCircle className="w-4 h-4 text-primary" /> Questions to Ask</h3>
+          {summary.questionsToAsk.length === 0 ? emptyState("No questions prepared yet.", 'candidate-questions', "Prepare some") : (
+            <ul className="space-y-2">
+              {summary.questionsToAsk.map(q => (
+                <li key={q.id} className="text-sm text-gray-700 flex items-start gap-2">
+                  {q.isStarred ? <Star className="w-3 h-3 mt-1 fill-current text-yellow-400 flex-shrink-0" /> : <span className="text-gray-400">•</span>}
+                  <span>{q.question} <span className="text-xs text-gray-400 capitalize">({q.interviewerType})</span></span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        <div className="bg-white p-6 rounded-2xl shadow-sm border border-gray-100">
+          <h3 className="font-bold text-gray-900 mb-4 flex items-center gap-2"><MessageSquare className="w-4 h-4 text-primary" /> Mock Interview</h3>
+          {!session.mockInterviewFeedback ? emptyState("No mock interview yet.", 'mock-interview', "Run one") : (
+            <>
+              <span className={`px-3 py-1 rounded-full text-xs font-bold uppercase tracking-wide ${HIRING_RECOMMENDATION_STYLES[session.mockInterviewFeedback.recommendation]}`}>
+                {session.mockInterviewFeedback.recommendation}
+              </span>
+              <p className="text-sm text-gray-700 italic mt-3">"{session.mockInterviewFeedback.verdict}"</p>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const SubmittedDocumentLink = ({
+  label,
+  submitted,
+  note,
+  fileName,
+  jobTitle,
+  documentLabel
+}: {
+  label: string;
+  submitted: SubmittedDocument;
+  note: string | null;
+  fileName: string;
+  jobTitle?: string;
+  documentLabel: string | null;
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  return (
+    <div className="text-sm">
+      <button onClick={() => setIsOpen(open => !open)} className="text-gray-700 hover:text-primary flex items-center gap-1">
+        {isOpen ? <ChevronUp className="w-3 h-3" /> : <ChevronDown className="w-3 h-3" />}
+        <span className="text-gray-500">{label}:</span> <span className="font-medium">{submitted.name}</span>
+      </button>
+      {note && <div className="text-xs text-amber-600 ml-4">{note}</div>}
+      {isOpen && (
+        <div className="mt-2 border border-gray-100 rounded-xl">
+          <div className="px-4 py-2 border-b border-gray-100 flex items-center gap-2 text-xs text-gray-500">
+            <span className="flex-1">Sent {new Date(submitted.submittedAt).toLocaleDateString()}</span>
+            <ExportMenu content={submitted.content} fileName={fileName} jobTitle={jobTitle} documentLabel={documentLabel} />
+          </div>
+          <div className="p-4 max-h-80 overflow-y-auto text-sm"><SimpleMarkdownRenderer content={submitted.content} /></div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+const ApplicationCard = ({
+  session,
+  onUpdate,
+  onOpen
+}: {
+  session: SessionData;
+  onUpdate: (update: (session: SessionData) => SessionData) => void;
+  onOpen: () => void;
+}) => {
+  const { application } = session;
+  const [notes, setNotes] = useState(application.notes);
+
+  useEffect(() => setNotes(application.notes), [application.notes]);
+
+  const setStatusDate = (value: string) => {
+    if (!value) return;
+    onUpdate(s => ({
+      ...s,
+      application: { ...s.application, statusDates: { ...s.application.statusDates, [s.application.status]: fromDateInputValue(value) } }
+    }));
+  };
+
+  return (
+    <div className="p-4 rounded-xl border border-gray-100 space-y-3">
+      <div className="flex flex-wrap items-center gap-3">
+        <select
+          value={application.status}
+          onChange={e => onUpdate(s => setApplicationStatus(s, e.target.value as ApplicationStatus))}
+          className={`px-3 py-1.5 rounded-lg text-sm font-bold border-0 outline-none focus:ring-2 focus:ring-primary ${APPLICATION_STATUS_STYLES[application.status]}`}
+        >
+          {APPLICATION_STATUSES.map(status => <option key={status} value={status}>{APPLICATION_STATUS_LABELS[status]}</option>)}
+        </select>
+        <label className="text-xs text-gray-500 flex items-center gap-2">
+          since
+          <input
+            type="date"
+            value={toDateInputValue(application.statusDates[application.status])}
+            onChange={e => setStatusDate(e.target.value)}
+            className="border border-gray-200 rounded-lg px-2 py-1 text-sm text-gray-700 outline-none focus:ring-2 focus:ring-primary"
+          />
+        </label>
+        <div className="flex-1" />
+        {session.analysis && <span className="text-xs text-gray-500">{session.analysis.match_score}% match</span>}
+        <button onClick={onOpen} className="px-3 py-1.5 bg-gray-100 hover:bg-gray-200 rounded-lg text-sm font-medium text-gray-700">
+          Open Session
+        </button>
+      </div>
+
+      <div className="flex flex-wrap gap-2 text-xs">
+        {APPLICATION_STATUSES.filter(status => application.statusDates[status]).map(status => (
+          <span key={status} className={`px-2 py-0.5 rounded-full ${status === application.status ? APPLICATION_STATUS_STYLES[status] : 'bg-gray-50 text-gray-500'}`}>
+            {APPLICATION_STATUS_LABELS[status]} {new Date(application.statusDates[status]!).toLocaleDateString()}
+          </span>
+        ))}
+      </div>
+
+      {(application.submittedResume || application.submittedCoverLetter) ? (
+        <div className="space-y-1">
+          {application.submittedResume && (
+            <SubmittedDocumentLink
+              label="Resume"
+              submitted={application.submittedResume}
+              note={describeSubmittedDocument(application.submittedResume, session.optimizedResumes)}
+              fileName={session.fileName}
+              jobTitle={session.jobTitle}
+              documentLabel={null}
+            />
+          )}
+          {application.submittedCoverLetter && (
+            <SubmittedDocumentLink
+              label="Cover letter"
+              submitted={application.submittedCoverLetter}
+              note={describeSubmittedDocument(application.submittedCoverLetter, session.coverLetters)}
+              fileName={session.fileName}
+              jobTitle={session.jobTitle}
+              documentLabel="Cover Letter"
+            />
+          )}
+        </div>
+      ) : application.status === 'saved' && (
+        <p className="text-xs text-gray-400">The selected resume and cover letter are recorded when you mark this as applied.</p>
+      )}
+      {application.status !== 'saved' && (
+        <button
+          onClick={() => onUpdate(s => ({ ...s, application: { ...s.application, ...snapshotSubmittedDocuments(s, Date.now()) } }))}
+          className="text-xs text-gray-500 hover:text-primary"
+        >
+          {application.submittedResume ? "Replace with the currently selected versions" : "Record the currently selected versions"}
+        </button>
+      )}
+
+      <textarea
+        value={notes}
+        onChange={e => setNotes(e.target.value)}
+        onBlur={() => { if (notes !== application.notes) onUpdate(s => ({ ...s, application: { ...s.application, notes } })); }}
+        placeholder="Notes: recruiter name, referral, follow-up dates..."
+        rows={2}
+        className="w-full border border-gray-200 rounded-lg px-3 py-2 text-sm text-gray-700 outline-none focus:ring-2 focus:ring-primary"
+      />
+    </div>
+  );
+};
+
+const ApplicationTracker = ({
+  sessions,
+  onUpdate,
+  onOpen
+}: {
+  sessions: SessionData[];
+  onUpdate: (id: string, update: (session: SessionData) => SessionData) => void;
+  onOpen: (session: SessionData) => void;
+}) => {
+  const [filter, setFilter] = useState<ApplicationStatus | null>(null);
+  const visible = filter ? sessions.filter(s => s.application.status === filter) : sessions;
+  const groups = groupApplications(visible);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap gap-2">
+        <button onClick={() => setFilter(null)} className={`px-3 py-1.5 rounded-lg text-sm font-medium ${filter === null ? 'bg-gray-900 text-white' : 'bg-white border border-gray-200 text-gray-600 hover:bg-gray-50'}`}>
+          All {sessions.length}
+        </button>
+        {APPLICATION_STATUSES.map(status => {
+          const count = sessions.filter(s => s.application.status === status).length;
+          return (
+            <button
+              key={status}
+              onClick={() => setFilter(filter === status ? null : status)}
+              className={`px-3 py-1.5 rounded-lg text-sm font-medium ${filter === status ? 'bg-gray-900 text-white' : 'bg-white border border-gray-200 text-gray-600 hover:bg-gray-50'}`}
+            >
+              {APPLICATION_STATUS_LABELS[status]} {count}
+            </button>
+          );
+        })}
+      </div>
+
+      {groups.length === 0 && <p className="text-gray-500">{filter ? `No applications are at "${APPLICATION_STATUS_LABELS[filter]}".` : "No applications yet. Analyze a resume against a job to start tracking it."}</p>}
+
+      {groups.map(group => (
+        <div key={group.company} className="bg-white p-6 rounded-2xl shadow-sm border border-gray-100">
+          <h3 className="font-bold text-lg text-gray-900 mb-4 flex items-center gap-2"><Briefcase className="w-4 h-4 text-primary" /> {group.company}</h3>
+          <div className="space-y-5">
+            {group.roles.map(({ role, sessions: roleSessions }) => (
+              <div key={role}>
+                <div className="font-medium text-gray-900 mb-2">
+                  {role}
+                  {roleSessions[0].jobLocation && <span className="text-sm text-gray-400 font-normal"> • {roleSessions[0].jobLocation}</span>}
+                </div>
+                <div className="space-y-3">
+                  {roleSessions.map(s => (
+                    <div key={s.id}>
+                      <ApplicationCard session={s} onUpdate={update => onUpdate(s.id, update)} onOpen={() => onOpen(s)} />
+                    </div>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+const FitComparison = ({
+  resumeText,
+  jobs,
+  onJobsChange,
+  onStartSession
+}: {
+  resumeText: string;
+  jobs: FitComparisonJob[];
+  onJobsChange: (update: (jobs: FitComparisonJob[]) => FitComparisonJob[]) => void;
+  onStartSession: (job: FitComparisonJob) => void;
+}) => {
+  const [inputMode, setInputMode] = useState<'text' | 'url'>('text');
+  const [input, setInput] = useState("");
+  const [isImporting, setIsImporting] = useState(false);
+  const [importErrors, setImportErrors] = useState<string[]>([]);
+  const [isRunning, setIsRunning] = useState(false);
+  const generation = useAbortController();
+
+  const updateJob = (id: string, changes: Partial<FitComparisonJob>) => {
+    onJobsChange(prev => prev.map(j => j.id === id ? { ...j, ...changes } : j));
+  };
+
+  const handleAdd = async () => {
+    if (inputMode === 'text') {
+      onJobsChange(prev => [...prev, ...splitJobDescriptions(input).map(d => createComparisonJob(d))]);
+      setInput("");
+      return;
+    }
+    const urls = input.split('\n').map(u => u.trim()).filter(Boolean);
+    setIsImporting(true);
+    setImportErrors([]);
+    const failed: { url: string; message: string }[] = [];
+    await runWithConcurrency(urls, BATCH_ANALYSIS_CONCURRENCY, async (url: string) => {
+      try {
+        const posting = await fetchJobPosting(url);
+        onJobsChange(prev => [...prev, createComparisonJob(posting.description, { ...posting, url })]);
+      } catch (error) {
+        failed.push({ url, message: error instanceof Error ? error.message : "Import failed" });
+      }
+    });
+    // Leave the failed URLs in the box so they can be fixed and retried
+    setInput(failed.map(f => f.url).join('\n'));
+    setImportErrors(failed.map(f => `${f.url}: ${f.message}`));
+    setIsImporting(false);
+  };
+
+  const handleCompare = async () => {
+    const signal = generation.start();
+    const queue = jobs.filter(j => j.status !== 'done');
+    onJobsChange(prev => prev.map(j => j.status !== 'done' ? { ...j, status: 'pending', error: undefined } : j));
+    setIsRunning(true);
+    await runWithConcurrency(queue, BATCH_ANALYSIS_CONCURRENCY, async job => {
+      if (signal.aborted) return;
+      updateJob(job.id, { status: 'running' });
+      try {
+        const prompt = renderPrompt(PROMPTS.atsAnalysis, { resumeText, jobDescription: job.description });
+        const analysis = await generateWithAI('analyze', prompt, ANALYSIS_SCHEMA, { signal });
+        updateJob(job.id, { status: 'done', analysis, promptVersion: prompt.version });
+      } catch (error) {
+        if (isAbortError(error)) updateJob(job.id, { status: 'pending' });
+        else {
+          console.error(error);
+          updateJob(job.id, { status: 'failed', error: getErrorMessage(error, "Analysis failed") });
+        }
+      }
+    });
+    setIsRunning(false);
+  };
+
+  const ranked = rankComparisonJobs(jobs);
+  const analyses = jobs.flatMap(j => j.analysis ? [j.analysis] : []);
+  const recurringGaps = findRecurringGaps(analyses);
+  const versions = [...new Set(jobs.flatMap(j => j.promptVersion ? [j.promptVersion] : []))];
+  const remaining = jobs.filter(j => j.status !== 'done').length;
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white p-6 rounded-2xl shadow-sm border border-gray-100">
+        <div className="flex gap-2 mb-4 bg-gray-100 p-1 rounded-xl w-fit">
+          <button onClick={() => setInputMode('text')} className={`px-4 py-2 rounded-lg text-sm font-bold flex items-center gap-2 ${inputMode === 'text' ? 'bg-white shadow-sm text-gray-900' : 'text-gray-500'}`}><FileText className="w-4 h-4" /> Paste Text</button>
+          <button onClick={() => setInputMode('url')} className={`px-4 py-2 rounded-lg text-sm font-bold flex items-center gap-2 ${inputMode === 'url' ? 'bg-white shadow-sm text-gray-900' : 'text-gray-500'}`}><LinkIcon className="w-4 h-4" /> Import from URLs</button>
+        </div>
+        <textarea
+          className="w-full h-40 border border-gray-200 rounded-xl p-4 text-sm focus:ring-2 focus:ring-primary outline-none"
+          value={input}
+          onChange={e => setInput(e.target.value)}
+          placeholder={inputMode === 'text' ? "Paste job descriptions, separated by a line containing only ---" : "One job posting URL per line"}
+        />
+        {importErrors.length > 0 && (
+          <ul className="mt-2 text-xs text-red-600 space-y-1">
+            {importErrors.map(e => <li key={e}>{e}</li>)}
+          </ul>
+        )}
+        <div className="flex justify-end mt-3">
+          <button onClick={handleAdd} disabled={!input.trim() || isImporting} className="px-6 py-2 bg-gray-900 text-white rounded-lg font-bold hover:bg-black disabled:opacity-50 flex items-center gap-2">
+            {isImporting && <Loader2 className="w-4 h-4 animate-spin" />} Add Jobs
+          </button>
+        </div>
+      </div>
+
+      {jobs.length > 0 && (
+        <div className="bg-white rounded-2xl shadow-sm border border-gray-100 overflow-x-auto">
+          <div className="px-6 py-4 border-b border-gray-100 flex items-center gap-3">
+            <h3 className="font-bold text-gray-900 flex-1">{jobs.length} {jobs.length === 1 ? "Job" : "Jobs"}</h3>
+            {isRunning ? (
+              <StopButton onClick={generation.stop} />
+            ) : (
+              <button onClick={handleCompare} disabled={remaining === 0} className="px-6 py-2 bg-primary text-white rounded-lg font-bold hover:bg-primaryDark disabled:opacity-50 flex items-center gap-2">
+                <Sparkles className="w-4 h-4" /> {remaining === jobs.length ? "Compare Fit" : `Analyze ${remaining} Remaining`}
+              </button>
+            )}
+          </div>
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs uppercase tracking-wide text-gray-400 border-b border-gray-100">
+                <th className="px-6 py-2 font-medium">Role</th>
+                <th className="py-2 font-medium">Match</th>
+                <th className="py-2 font-medium">ATS</th>
+                <th className="py-2 font-medium">Top Missing Keywords</th>
+                <th className="py-2 font-medium">Skills Gap</th>
+                <th className="px-6 py-2" />
+              </tr>
+            </thead>
+            <tbody>
+              {ranked.map(job => (
+                <tr key={job.id} className="border-b border-gray-50 last:border-0 align-top">
+                  <td className="px-6 py-3 min-w-[200px]">
+                    <input value={job.title} onChange={e => updateJob(job.id, { title: e.target.value })} className="w-full font-medium text-gray-900 outline-none focus:ring-2 focus:ring-primary rounded px-1 -mx-1" placeholder="Job title" />
+                    <input value={job.company} onChange={e => updateJob(job.id, { company: e.target.value })} className="w-full text-xs text-gray-500 outline-none focus:ring-2 focus:ring-primary rounded px-1 -mx-1" placeholder="Company" />
+                    {job.error && <div className="text-xs text-red-600 mt-1">{job.error}</div>}
+                  </td>
+                  <td className="py-3 font-bold text-gray-900">
+                    {job.status === 'running' ? <Loader2 className="w-4 h-4 animate-spin text-primary" /> : job.analysis ? `${job.analysis.match_score}%` : <span className="text-gray-300">—</span>}
+                  </td>
+                  <td className="py-3 text-gray-600">{scoreResumeLocally(resumeText, job.description).score}%</td>
+                  <td className="py-3">
+                    <div className="flex flex-wrap gap-1">
+                      {job.analysis?.missing_keywords.slice(0, 3).map(k => <span key={k} className="px-2 py-0.5 bg-red-50 text-red-700 rounded-full text-xs">{k}</span>)}
+                    </div>
+                  </td>
+                  <td className="py-3">
+                    <div className="flex flex-wrap gap-1">
+                      {job.analysis?.skills_gap.slice(0, 3).map(k => <span key={k} className="px-2 py-0.5 bg-orange-50 text-orange-700 rounded-full text-xs">{k}</span>)}
+                    </div>
+                  </td>
+                  <td className="px-6 py-3 whitespace-nowrap text-right">
+                    {job.analysis && (
+                      <button onClick={() => onStartSession(job)} className="px-3 py-1.5 bg-gray-100 hover:bg-gray-200 rounded-lg text-xs font-medium text-gray-700">Prepare</button>
+                    )}
+                    <button onClick={() => onJobsChange(prev => prev.filter(j => j.id !== job.id))} disabled={job.status === 'running'} className="p-1.5 text-gray-400 hover:text-error rounded-lg disabled:opacity-30 ml-1" title="Remove">
+                      <X className="w-4 h-4" />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {versions.length > 1 && (
+        <PromptMismatchNote message={`These roles were scored with different prompt versions (${versions.join(", ")}), so their match scores aren't strictly comparable.`} />
+      )}
+
+      {analyses.length > 1 && (
+        <div className="bg-white p-6 rounded-2xl shadow-sm border border-gray-100">
+          <h3 className="font-bold text-gray-900 mb-1 flex items-center gap-2"><TrendingUp className="w-4 h-4 text-primary" /> Recurring Gaps</h3>
+          <p className="text-xs text-gray-500 mb-4">Missing keywords and skills named by more than one of these roles.</p>
+          {recurringGaps.length === 0 ? <p className="text-sm text-gray-400">No gap shows up in more than one role.</p> : (
+            <div className="flex flex-wrap gap-2">
+              {recurringGaps.map(g => (
+                <span key={g.term} className="px-3 py-1 bg-red-50 text-red-700 border border-red-100 rounded-full text-xs font-medium">
+                  {g.term} <span className="text-red-400">{g.count}/{analyses.length}</span>
+                </span>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+const PRACTICE_CALENDAR_DAYS = 28;
+
+const TrendChart = ({ points }: { points: ScorePoint[] }) => {
+  const width = 600;
+  const height = 160;
+  const pad = 24;
+  const start = points[0]?.at ?? 0;
+  const span = Math.max(1, (points[points.length - 1]?.at ?? 0) - start);
+  const x = (p: ScorePoint) => points.length === 1 ? width / 2 : pad + ((p.at - start) / span) * (width - pad * 2);
+  const y = (score: number) => height - pad - (score / 100) * (height - pad * 2);
+  return (
+    <svg viewBox={`0 0 ${width} ${height}`} className="w-full h-40 text-primary">
+      {[0, 50, 100].map(v => (
+        <g key={v}>
+          <line x1={pad} x2={width - pad} y1={y(v)} y2={y(v)} stroke="#f3f4f6" />
+          <text x={0} y={y(v) + 4} fontSize="10" fill="#9ca3af">{v}</text>
+        </g>
+      ))}
+      <polyline fill="none" stroke="currentColor" strokeWidth="2" points={points.map(p => `${x(p)},${y(p.score)}`).join(" ")} />
+      {points.map((p, i) => (
+        <circle key={i} cx={x(p)} cy={y(p.score)} r="4" fill="currentColor">
+          <title>{`${p.label}: ${p.score} (${new Date(p.at).toLocaleDateString()})`}</title>
+        </circle>
+      ))}
+    </svg>
+  );
+};
+
+const ScoreChange = ({ change }: { change: number | null }) => {
+  if (change === null) return null;
+  const style = change > 0 ? "bg-green-50 text-green-700" : change < 0 ? "bg-red-50 text-red-700" : "bg-gray-100 text-gray-600";
+  return (
+    <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${style}`} title="Recent half of these scores against the earlier half">
+      {change > 0 ? `+${change}` : change === 0 ? "±0" : change}
+    </span>
+  );
+};
+
+const ProgressAnalytics = ({ sessions, drillAttempts }: { sessions: SessionData[]; drillAttempts: DrillAttempt[] }) => {
+  const matchScores = useMemo(() => collectMatchScores(sessions), [sessions]);
+  const answers = useMemo(() => collectAnswers(sessions, drillAttempts), [sessions, drillAttempts]);
+  const analysisVersions = useMemo(() => listScoreVersions(matchScores, currentPromptVersion(PROMPTS.atsAnalysis)), [matchScores]);
+  const gradingVersions = useMemo(() => listScoreVersions(answers, currentPromptVersion(PROMPTS.answerGrading)), [answers]);
+  const [analysisVersion, setAnalysisVersion] = useState<string | null>(null);
+  const [gradingVersion, setGradingVersion] = useState<string | null>(null);
+  const selectedAnalysisVersion = analysisVersion ?? analysisVersions[0]?.version;
+  const selectedGradingVersion = gradingVersion ?? gradingVersions[0]?.version;
+
+  const matchTrend = matchScores.filter(p => p.version === selectedAnalysisVersion);
+  const gradedAnswers = answers.filter(a => a.version === selectedGradingVersion);
+  const answerTrend = dailyAverageScores(gradedAnswers);
+  const byType = averageAnswerScoresByType(gradedAnswers);
+  const themes = findImprovementThemes(gradedAnswers.flatMap(a => a.improvements));
+  const streaks = practiceStreaks(answers.map(a => a.at));
+  const today = toDateInputValue(Date.now());
+  const calendar = Array.from({ length: PRACTICE_CALENDAR_DAYS }, (_, i) => shiftDayKey(today, i - PRACTICE_CALENDAR_DAYS + 1));
+
+  if (matchScores.length === 0 && answers.length === 0) {
+    return (
+      <div className="text-center py-20 bg-white rounded-xl border border-dashed border-gray-300">
+        <TrendingUp className="w-12 h-12 text-gray-300 mx-auto mb-4" />
+        <p className="text-gray-500">Analyze a resume or practice a few answers and your progress will show up here.</p>
+      </div>
+    );
+  }
+
+  const stat = (value: React.ReactNode, label: string) => (
+    <div className="bg-white p-5 rounded-2xl shadow-sm border border-gray-100 text-center">
+      <div className="text-3xl font-extrabold text-gray-900">{value}</div>
+      <div className="text-xs text-gray-500 font-medium uppercase tracking-wide mt-1">{label}</div>
+    </div>
+  );
+  const versionPicker = (label: string, versions: { version: string; count: number }[], value: string | undefined, onChange: (version: string) => void) => versions.length > 1 && (
+    <label className="text-sm text-gray-600 flex items-center gap-2">
+      {label}
+      <select value={value} onChange={e => onChange(e.target.value)} className="px-2 py-1 border border-gray-200 rounded-lg text-sm bg-white">
+        {versions.map(v => <option key={v.version} value={v.version}>{v.version} ({v.count})</option>)}
+      </select>
+    </label>
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        {stat(matchTrend.length ? `${averageScore(matchTrend)}%` : "—", "Avg. Resume Match")}
+        {stat(gradedAnswers.length ? averageScore(gradedAnswers) : "—", "Avg. Answer Score")}
+        {stat(streaks.current, streaks.current === 1 ? "Day Streak" : "Days Streak")}
+        {stat(streaks.longest, "Longest Streak")}
+      </div>
+
+      {(analysisVersions.length > 1 || gradingVersions.length > 1) && (
+        <div className="space-y-3">
+          <PromptMismatchNote message="Your sessions were scored by more than one prompt version. Scores from different versions aren't comparable, so each chart only shows one version at a time." />
+          <div className="flex flex-wrap gap-4">
+            {versionPicker("Analysis version", analysisVersions, selectedAnalysisVersion, setAnalysisVersion)}
+            {versionPicker("Grading version", gradingVersions, selectedGradingVersion, setGradingVersion)}
+          </div>
+        </div>
+      )}
+
+      <div className="grid md:grid-cols-2 gap-6">
+        <div className="bg-white p-6 rounded-2xl shadow-sm border border-gray-100">
+          <h3 className="font-bold text-gray-900 mb-1 flex items-center gap-2"><BarChart2 className="w-4 h-4 text-primary" /> Resume Match <ScoreChange change={scoreChange(matchTrend)} /></h3>
+          <p className="text-xs text-gray-500 mb-4">Match score of each analyzed session.</p>
+          {matchTrend.length === 0 ? <p className="text-sm text-gray-400">No analyzed sessions yet.</p> : <TrendChart points={matchTrend} />}
+        </div>
+        <div className="bg-white p-6 rounded-2xl shadow-sm border border-gray-100">
+          <h3 className="font-bold text-gray-900 mb-1 flex items-center gap-2"><Award className="w-4 h-4 text-primary" /> Answer Scores <ScoreChange change={scoreChange(gradedAnswers)} /></h3>
+          <p className="text-xs text-gray-500 mb-4">Average score of the answers graded each day.</p>
+          {answerTrend.length === 0 ? <p className="text-sm text-gray-400">No graded answers yet.</p> : <TrendChart points={answerTrend} />}
+        </div>
+      </div>
+
+      <div className="grid md:grid-cols-2 gap-6">
+        <div className="bg-white p-6 rounded-2xl shadow-sm border border-gray-100">
+          <h3 className="font-bold text-gray-900 mb-4 flex items-center gap-2"><Target className="w-4 h-4 text-primary" /> Scores by Question Type</h3>
+          {byType.length === 0 ? <p className="text-sm text-gray-400">No graded answers yet.</p> : (
+            <div className="space-y-4">
+              {byType.map(t => (
+                <div key={t.type} className="flex items-end gap-3">
+                  <div className="flex-1">
+                    <ScoreBar label={`${t.type.charAt(0).toUpperCase()}${t.type.slice(1)} (${t.count} ${t.count === 1 ? "answer" : "answers"})`} value={t.average} />
+                  </div>
+                  <ScoreChange change={t.change} />
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="bg-white p-6 rounded-2xl shadow-sm border border-gray-100">
+          <h3 className="font-bold text-gray-900 mb-4 flex items-center gap-2"><TrendingUp className="w-4 h-4 text-primary" /> Recurring Feedback</h3>
+          {themes.length === 0 ? <p className="text-sm text-gray-400">Improvement themes show up here once answers are graded.</p> : (
+            <ul className="space-y-3">
+              {themes.slice(0, 6).map(t => (
+                <li key={t.theme} className="text-sm">
+                  <div className="font-medium text-gray-900 flex items-center gap-2">
+                    {t.theme}
+                    <span className="px-2 py-0.5 bg-orange-50 text-orange-700 rounded-full text-xs">{t.count}×</span>
+                  </div>
+                  <p className="text-gray-500 text-xs mt-0.5">{t.examples[0]}</p>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+
+      <div className="bg-white p-6 rounded-2xl shadow-sm border border-gray-100">
+        <h3 className="font-bold text-gray-900 mb-1 flex items-center gap-2"><Calendar className="w-4 h-4 text-primary" /> Practice Days</h3>
+        <p className="text-xs text-gray-500 mb-4">
+          {calendar.filter(day => streaks.days.has(day)).length} of the last {PRACTICE_CALENDAR_DAYS} days had at least one graded answer.
+        </p>
+        <div className="grid grid-cols-7 gap-1.5 max-w-xs">
+          {calendar.map(day => (
+            <div
+              key={day}
+              title={new Date(fromDateInputValue(day)).toLocaleDateString()}
+              className={`aspect-square rounded ${streaks.days.has(day) ? "bg-primary" : "bg-gray-100"} ${day === today ? "ring-2 ring-primary/40" : ""}`}
+            />
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const QUESTION_TYPE_STYLES: Record<InterviewQuestion['type'], string> = {
+  behavioral: "bg-green-50 text-green-700",
+  technical: "bg-blue-50 text-blue-700",
+  situational: "bg-purple-50 text-purple-700"
+};
+
+const DailyDrill = ({
+  questions,
+  onRecordAttempt,
+  onExit
+}: {
+  questions: BankQuestion[];
+  onRecordAttempt: (attempt: DrillAttempt) => Promise<void>;
+  onExit: () => void;
+}) => {
+  const [currentIndex, setCurrentIndex] = useState(0);
+  const [answerText, setAnswerText] = useState("");
+  const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const [graded, setGraded] = useState<GradedAnswer | null>(null);
+  const [draftAnswer, setDraftAnswer] = useState<string | null>(null);
+  const [scores, setScores] = useState<number[]>([]);
+  const generation = useAbortController();
+
+  const current = questions[currentIndex];
+  const isFinished = currentIndex >= questions.length;
 
   const handleSubmit = async () => {
     if (!answerText.trim()) return;
     setIsAnalyzing(true);
-
+    setDraftAnswer("");
     try {
-      const prompt = `
-        You are an expert interview coach grading a WRITTEN response.
-        
-        CONTEXT:
-        Job Description: ${jobDescription.substring(0, 1000)}...
-        QUESTION: "${currentQuestion.question}" (${currentQuestion.type})
-        CANDIDATE ANSWER: "${answerText}"
-        
-        TASK:
-        Grade the answer strictly. Provide a revised version that is stronger.
-        
-        OUTPUT JSON:
-        {
-          "score": 85,
-          "strengths": ["Used STAR method", "Specific metrics"],
-          "improvements": ["Mention tools used", "Be more concise"],
-          "model_answer": "Revised version of the candidate's answer...",
-          "specific_feedback": "Good job, but..."
-        }
-      `;
-
-      const result = await analyzeWithGemini(prompt, "gemini-2.5-flash", {
-        type: Type.OBJECT,
-        properties: {
-          score: { type: Type.NUMBER },
-          strengths: { type: Type.ARRAY, items: { type: Type.STRING } },
-          improvements: { type: Type.ARRAY, items: { type: Type.STRING } },
-          model_answer: { type: Type.STRING },
-          specific_feedback: { type: Type.STRING }
-        },
-        required: ["score", "strengths", "improvements", "model_answer", "specific_feedback"]
+      const result = await gradeAnswer(current.question, answerText, current.jobDescription, 'written', {
+        signal: generation.start(),
+        onText: text => setDraftAnswer(readPartialJsonStrings(text, "model_answer")[0] ?? "")
+      });
+      setGraded(result);
+      setScores(prev => [...prev, result.feedback.score]);
+      await onRecordAttempt({
+        id: crypto.randomUUID(),
+        question: current.question,
+        answer: answerText,
+        feedback: result.feedback,
+        promptVersion: result.promptVersion,
+        answeredAt: Date.now()
       });
-
-      setFeedback(result);
-      onAnswerSubmit(currentIndex, answerText, result);
     } catch (error) {
+      if (isAbortError(error)) return;
       console.error(error);
-      alert("Analysis failed. Try again.");
+      alert(getErrorMessage(error, "Analysis failed. Try again."));
     } finally {
       setIsAnalyzing(false);
+      setDraftAnswer(null);
     }
   };
 
   const handleNext = () => {
-    if (currentIndex < questions.length - 1) {
-      setCurrentIndex(prev => prev + 1);
-    } else {
-      onComplete();
-    }
+    setCurrentIndex(prev => prev + 1);
+    setAnswerText("");
+    setGraded(null);
   };
 
+  if (isFinished) {
+    const average = scores.length ? Math.round(scores.reduce((sum, s) => sum + s, 0) / scores.length) : null;
+    return (
+      <div className="max-w-2xl mx-auto text-center bg-white p-10 rounded-2xl shadow-sm border border-gray-100 animate-fade-in">
+        <CheckCircle className="w-12 h-12 text-green-500 mx-auto mb-4" />
+        <h3 className="text-xl font-bold text-gray-900 mb-2">Drill complete</h3>
+        <p className="text-gray-500 mb-6">
+          {scores.length} of {questions.length} answered{average !== null && `, averaging ${average}`}. Anything under {REVIEW_PASS_SCORE} comes back tomorrow.
+        </p>
+        <button onClick={onExit} className="px-6 py-2 bg-primary text-white font-bold rounded-lg hover:bg-primaryDark">Back to Question Bank</button>
+      </div>
+    );
+  }
+
   return (
-    <div className="max-w-2xl mx-auto animate-fade-in pb-20">
+    <div className="max-w-2xl mx-auto animate-fade-in">
       <div className="flex justify-between items-center mb-6">
-        <h2 className="text-xl font-bold text-gray-900">Practice Mode</h2>
+        <button onClick={onExit} className="text-sm text-gray-500 hover:text-primary flex items-center gap-1"><ChevronLeft className="w-4 h-4" /> Question Bank</button>
         <span className="text-sm text-gray-500 font-medium">Question {currentIndex + 1} of {questions.length}</span>
       </div>
 
       <div className="bg-white p-6 rounded-2xl shadow-sm border border-gray-200 mb-6">
-        <h3 className="text-2xl font-bold text-gray-900 mb-2">{currentQuestion.question}</h3>
-        <p className="text-gray-500 text-sm mb-6">
-          Focus on your specific role, the obstacles you faced, and the outcome. Use the STAR method.
-        </p>
-
-        <div className="mb-2 flex justify-between text-xs text-gray-400 font-medium uppercase tracking-wide">
-          <span>Your Answer</span>
-          <span>{answerText.length} chars</span>
+        <div className="flex flex-wrap gap-2 mb-3">
+          <span className={`px-2 py-0.5 rounded-full text-xs font-medium capitalize ${QUESTION_TYPE_STYLES[current.question.type]}`}>{current.question.type}</span>
+          <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-600">{describeReviewDue(current.schedule, toDateInputValue(Date.now()))}</span>
+          {current.schedule.lastScore !== null && <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-600">Last score {current.schedule.lastScore}</span>}
         </div>
-        
+        <h3 className="text-2xl font-bold text-gray-900 mb-2">{current.question.question}</h3>
+        <p className="text-gray-500 text-sm mb-6">{current.question.why_asked}</p>
+
         <textarea
           className="w-full h-48 p-4 border border-gray-200 rounded-xl focus:ring-2 focus:ring-primary focus:border-transparent resize-none text-gray-700 leading-relaxed"
           placeholder="Type your answer here..."
           value={answerText}
           onChange={(e) => setAnswerText(e.target.value)}
-          disabled={!!feedback || isAnalyzing}
+          disabled={!!graded || isAnalyzing}
         ></textarea>
 
-        {!feedback && (
-          <div className="mt-4 flex justify-end">
-             <button
-               onClick={handleSubmit}
-               disabled={!answerText.trim() || isAnalyzing}
-               className="px-6 py-2 bg-primary text-white rounded-lg font-medium hover:bg-primaryDark disabled:opacity-50 flex items-center gap-2"
-             >
-               {isAnalyzing ? <Loader2 className="w-4 h-4 animate-spin" /> : <Sparkles className="w-4 h-4" />}
-               {isAnalyzing ? "Analyzing..." : "Analyze Answer"}
-             </button>
+        {!graded && (
+          <div className="mt-4 flex justify-between">
+            <button onClick={handleNext} disabled={isAnalyzing} className="px-4 py-2 text-sm font-medium text-gray-500 hover:bg-gray-100 rounded-lg disabled:opacity-50">Skip</button>
+            <button
+              onClick={handleSubmit}
+              disabled={!answerText.trim() || isAnalyzing}
+              className="px-6 py-2 bg-primary text-white rounded-lg font-medium hover:bg-primaryDark disabled:opacity-50 flex items-center gap-2"
+            >
+              {isAnalyzing ? <Loader2 className="w-4 h-4 animate-spin" /> : <Sparkles className="w-4 h-4" />}
+              {isAnalyzing ? "Analyzing..." : "Analyze Answer"}
+            </button>
           </div>
         )}
       </div>
 
-      {feedback && (
-        <div className="animate-fade-in space-y-4">
-           <div className="flex items-center gap-2 mb-2">
-              <div className="p-1.5 bg-blue-100 rounded-lg text-primary"><Sparkles className="w-4 h-4" /></div>
-              <h3 className="font-bold text-gray-900">AI Analysis</h3>
-           </div>
-
-           <div className="bg-white p-6 rounded-2xl shadow-sm border border-gray-200">
-              <div className="flex items-center justify-between mb-6">
-                 <div>
-                    <div className="text-sm text-gray-500">Overall Score</div>
-                    <div className="flex items-baseline gap-1">
-                       <span className="text-4xl font-bold text-gray-900">{feedback.score}</span>
-                       <span className="text-gray-400">/100</span>
-                    </div>
-                    <span className={`inline-block px-2 py-0.5 rounded text-xs font-bold mt-1 ${feedback.score >= 80 ? 'bg-green-100 text-green-700' : 'bg-yellow-100 text-yellow-700'}`}>
-                      {feedback.score >= 80 ? 'Strong Answer' : 'Needs Work'}
-                    </span>
-                 </div>
-                 <div className="relative w-16 h-16">
-                     <svg className="w-full h-full" viewBox="0 0 36 36">
-                        <path d="M18 2.0845 a 15.9155 15.9155 0 0 1 0 31.831 a 15.9155 15.9155 0 0 1 0 -31.831" fill="none" stroke="#eee" strokeWidth="3" />
-                        <path d="M18 2.0845 a 15.9155 15.9155 0 0 1 0 31.831 a 15.9155 15.9155 0 0 1 0 -31.831" fill="none" stroke="#2563EB" strokeWidth="3" strokeDasharray={`${feedback.score}, 100`} />
-                      </svg>
-                 </div>
-              </div>
-
-              <div className="bg-green-50 p-4 rounded-xl mb-4">
-                 <h4 className="font-bold text-green-800 text-sm mb-2 flex items-center gap-2"><ThumbsUp className="w-4 h-4" /> Strengths</h4>
-                 <ul className="space-y-2">
-                    {feedback.strengths.map((s, i) => (
-                      <li key={i} className="flex items-start gap-2 text-sm text-green-700">
-                        <Check className="w-4 h-4 mt-0.5 flex-shrink-0" /> {s}
-                      </li>
-                    ))}
-                 </ul>
-              </div>
-
-              <div className="bg-orange-50 p-4 rounded-xl mb-4">
-                 <h4 className="font-bold text-orange-800 text-sm mb-2 flex items-center gap-2"><TrendingUp className="w-4 h-4" /> Improvements</h4>
-                 <ul className="space-y-2">
-                    {feedback.improvements.map((s, i) => (
-                      <li key={i} className="flex items-start gap-2 text-sm text-orange-700">
-                        <span className="font-bold text-orange-500">!</span> {s}
-                      </li>
-                    ))}
-                 </ul>
-              </div>
+      {draftAnswer !== null && <ModelAnswerDraft text={draftAnswer} onStop={generation.stop} />}
 
-              <div className="bg-blue-50 p-4 rounded-xl border border-blue-100">
-                 <div className="flex justify-between items-center mb-2">
-                    <h4 className="font-bold text-blue-800 text-sm flex items-center gap-2"><Sparkles className="w-4 h-4" /> Revised Answer</h4>
-                    <span className="text-xs text-blue-600 font-semibold cursor-pointer uppercase">Copy</span>
-                 </div>
-                 <p className="text-sm text-blue-800 italic leading-relaxed">"{feedback.model_answer}"</p>
-              </div>
-           </div>
-           
-           <div className="flex gap-3 pt-4">
-              <button onClick={() => { setFeedback(null); }} className="flex-1 py-3 bg-gray-100 text-gray-700 font-bold rounded-lg hover:bg-gray-200">
-                 Try Again
-              </button>
-              <button onClick={handleNext} className="flex-1 py-3 bg-primary text-white font-bold rounded-lg hover:bg-primaryDark flex items-center justify-center gap-2">
-                 {currentIndex === questions.length - 1 ? "Finish Written Practice" : "Next Question"} <ArrowRight className="w-4 h-4" />
-              </button>
-           </div>
+      {graded && (
+        <div className="animate-fade-in space-y-4">
+          <AnswerFeedbackCard feedback={graded.feedback} promptVersion={graded.promptVersion} />
+          <button onClick={handleNext} className="w-full py-3 bg-primary text-white font-bold rounded-lg hover:bg-primaryDark flex items-center justify-center gap-2">
+            {currentIndex === questions.length - 1 ? "Finish Drill" : "Next Question"} <ArrowRight className="w-4 h-4" />
+          </button>
         </div>
       )}
     </div>
   );
 };
 
-const MockInterviewSession = ({ onComplete }: { onComplete: () => void }) => {
-  const [isActive, setIsActive] = useState(false);
-  const [messages, setMessages] = useState<{role: 'ai'|'user', text: string}[]>([]);
-  
-  // Simulate interaction
-  useEffect(() => {
-    if (isActive && messages.length === 0) {
-      // Start
-      setMessages([{ role: 'ai', text: "Hello! Thanks for joining me today. I've reviewed your resume and I'm excited to learn more about you. To start, could you please walk me through your background?" }]);
-      speak("Hello! Thanks for joining me today. I've reviewed your resume and I'm excited to learn more about you. To start, could you please walk me through your background?");
-    }
-  }, [isActive]);
+const QuestionBankView = ({
+  sessions,
+  drillAttempts,
+  onRecordAttempt
+}: {
+  sessions: SessionData[];
+  drillAttempts: DrillAttempt[];
+  onRecordAttempt: (attempt: DrillAttempt) => Promise<void>;
+}) => {
+  const bank = useMemo(() => buildQuestionBank(sessions, drillAttempts), [sessions, drillAttempts]);
+  const [typeFilter, setTypeFilter] = useState<InterviewQuestion['type'] | "">("");
+  const [skillFilter, setSkillFilter] = useState("");
+  // The drill keeps the questions it started with, even as answering them reschedules the bank
+  const [drill, setDrill] = useState<BankQuestion[] | null>(null);
 
-  const speak = (text: string) => {
-    const utterance = new SpeechSynthesisUtterance(text);
-    utterance.rate = 1;
-    utterance.pitch = 1;
-    window.speechSynthesis.speak(utterance);
-  };
+  const today = toDateInputValue(Date.now());
+  const dailyDrill = pickDailyDrill(bank, today);
+  const dueCount = bank.filter(q => isReviewDue(q, today)).length;
+  const skills = [...new Set(bank.flatMap(q => q.skills))].sort();
+  const shown = bank
+    .filter(q => (!typeFilter || q.question.type === typeFilter) && (!skillFilter || q.skills.includes(skillFilter)))
+    .sort((a, b) => (a.schedule.dueDay ?? today).localeCompare(b.schedule.dueDay ?? today));
 
-  const stopInterview = () => {
-    setIsActive(false);
-    window.speechSynthesis.cancel();
-    onComplete();
-  };
+  if (drill) return <DailyDrill questions={drill} onRecordAttempt={onRecordAttempt} onExit={() => setDrill(null)} />;
+
+  if (bank.length === 0) {
+    return (
+      <div className="text-center py-20 bg-white rounded-xl border border-dashed border-gray-300">
+        <HelpCircle className="w-12 h-12 text-gray-300 mx-auto mb-4" />
+        <p className="text-gray-500">Questions from your practice sessions collect here once you've generated some.</p>
+      </div>
+    );
+  }
 
   return (
-    <div className="max-w-4xl mx-auto animate-fade-in flex flex-col h-[600px] bg-gray-900 rounded-2xl overflow-hidden shadow-2xl relative">
-       {/* Video Area */}
-       <div className="flex-1 relative flex items-center justify-center bg-gray-800">
-          <img 
-            src="https://images.unsplash.com/photo-1573496359142-b8d87734a5a2?auto=format&fit=crop&q=80&w=600&h=600" 
-            alt="Interviewer" 
-            className="w-48 h-48 rounded-full object-cover border-4 border-gray-700 shadow-xl opacity-90"
-          />
-          {isActive && (
-            <div className="absolute w-52 h-52 rounded-full border-2 border-primary animate-ping opacity-20"></div>
-          )}
-          
-          <div className="absolute bottom-6 left-6 right-6 text-center">
-             {messages.length > 0 && messages[messages.length - 1].role === 'ai' && (
-                <div className="bg-black/60 backdrop-blur-md text-white p-4 rounded-xl inline-block max-w-lg text-lg leading-relaxed shadow-lg border border-white/10">
-                   {messages[messages.length - 1].text}
+    <div className="space-y-6">
+      <div className="p-6 bg-gradient-to-r from-gray-900 to-gray-800 rounded-2xl text-white flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <h3 className="font-bold text-lg">Daily Drill</h3>
+          <p className="text-gray-300 text-sm">
+            {dueCount > 0 ? `${dueCount} ${dueCount === 1 ? "question is" : "questions are"} due for review.` : "Nothing due for review. New questions are up next."}
+            {" "}Answers under {REVIEW_PASS_SCORE} come back sooner.
+          </p>
+        </div>
+        <button
+          onClick={() => setDrill(dailyDrill)}
+          disabled={dailyDrill.length === 0}
+          className="px-6 py-2 bg-white text-gray-900 font-bold rounded-lg hover:bg-gray-100 disabled:opacity-50 flex items-center gap-2"
+        >
+          <Play className="w-4 h-4" /> {dailyDrill.length ? `Start ${dailyDrill.length} ${dailyDrill.length === 1 ? "Question" : "Questions"}` : "All Caught Up"}
+        </button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3">
+        <h3 className="font-bold text-gray-900 flex-1">{bank.length} {bank.length === 1 ? "Question" : "Questions"}</h3>
+        <select value={typeFilter} onChange={e => setTypeFilter(e.target.value as InterviewQuestion['type'] | "")} className="px-3 py-2 border border-gray-200 rounded-lg text-sm bg-white capitalize">
+          <option value="">All types</option>
+          {QUESTION_TYPES.map(t => <option key={t} value={t}>{t}</option>)}
+        </select>
+        <select value={skillFilter} onChange={e => setSkillFilter(e.target.value)} className="px-3 py-2 border border-gray-200 rounded-lg text-sm bg-white">
+          <option value="">All skills</option>
+          {skills.map(s => <option key={s} value={s}>{s}</option>)}
+        </select>
+      </div>
+
+      <div className="space-y-3">
+        {shown.map(q => (
+          <div key={q.key} className="bg-white p-5 rounded-xl border border-gray-200 flex items-start gap-4">
+            <div className="flex-1 min-w-0">
+              <p className="font-medium text-gray-900">{q.question.question}</p>
+              <div className="flex flex-wrap gap-2 mt-2 text-xs">
+                <span className={`px-2 py-0.5 rounded-full font-medium capitalize ${QUESTION_TYPE_STYLES[q.question.type]}`}>{q.question.type}</span>
+                {q.skills.map(s => <span key={s} className="px-2 py-0.5 rounded-full bg-gray-100 text-gray-600">{s}</span>)}
+                {q.sessionIds.length > 1 && <span className="px-2 py-0.5 text-gray-400">Asked in {q.sessionIds.length} sessions</span>}
+              </div>
+            </div>
+            <div className="text-right text-xs flex-shrink-0 space-y-1">
+              <div className={`font-medium ${isReviewDue(q, today) ? "text-orange-600" : "text-gray-500"}`}>{describeReviewDue(q.schedule, today)}</div>
+              {q.schedule.lastScore !== null && (
+                <div className={q.schedule.lastScore >= REVIEW_PASS_SCORE ? "text-green-600" : "text-red-600"}>
+                  Last score {q.schedule.lastScore} • {q.attempts.length} {q.attempts.length === 1 ? "attempt" : "attempts"}
                 </div>
-             )}
+              )}
+              <button onClick={() => setDrill([q])} className="text-primary font-medium hover:underline">Practice now</button>
+            </div>
           </div>
-       </div>
-
-       {/* Controls */}
-       <div className="h-24 bg-gray-950 flex items-center justify-center gap-6 border-t border-gray-800">
-          {!isActive ? (
-            <button onClick={() => setIsActive(true)} className="px-8 py-3 bg-green-600 hover:bg-green-700 text-white font-bold rounded-full flex items-center gap-2 transition-transform hover:scale-105">
-              <Play className="w-5 h-5" /> Start Interview
-            </button>
-          ) : (
-            <>
-              <button className="w-12 h-12 rounded-full bg-gray-800 hover:bg-gray-700 flex items-center justify-center text-white border border-gray-700">
-                <Mic className="w-5 h-5" />
-              </button>
-              <button onClick={stopInterview} className="px-6 py-3 bg-red-600 hover:bg-red-700 text-white font-bold rounded-full flex items-center gap-2">
-                <Square className="w-4 h-4 fill-current" /> End Interview
-              </button>
-            </>
-          )}
-       </div>
-       
-       <div className="absolute top-4 right-4 bg-red-600 px-3 py-1 rounded text-xs font-bold text-white flex items-center gap-1 animate-pulse">
-          <div className="w-2 h-2 bg-white rounded-full"></div> REC
-       </div>
+        ))}
+      </div>
     </div>
   );
 };
@@ -637,6 +6126,7 @@ const Dashboard = ({ onSelectStep }: { onSelectStep: (step: Step) => void }) =>
     { title: "Verbal Practice", step: 'verbal-practice', icon: Mic, color: "bg-orange-100 text-orange-700" },
     { title: "Ask Questions", step: 'candidate-questions', icon: HelpCircle, color: "bg-pink-100 text-pink-700" },
     { title: "Mock Interview", step: 'mock-interview', icon: Video, color: "bg-indigo-100 text-indigo-700" },
+    { title: "Compare Jobs", step: 'compare', icon: Grid, color: "bg-teal-100 text-teal-700" },
   ];
 
   return (
@@ -677,165 +6167,438 @@ const Dashboard = ({ onSelectStep }: { onSelectStep: (step: Step) => void }) =>
 
 // --- MAIN APP COMPONENT ---
 
+const createEmptySession = (): SessionData => ({
+  id: crypto.randomUUID(),
+  timestamp: Date.now(),
+  resumeText: "",
+  parsedResume: null,
+  jobDescription: "",
+  fileName: "",
+  analysis: null,
+  optimizedResumes: [],
+  selectedResumeIndex: 0,
+  coverLetters: [],
+  selectedCoverLetterIndex: 0,
+  questions: [],
+  writtenAnswers: [],
+  verbalAnswers: [],
+  candidateQuestions: [],
+  mockInterviewTranscript: [],
+  mockInterviewFeedback: null,
+  promptVersions: {},
+  lastStep: 'upload',
+  stepHistory: [],
+  updatedAt: Date.now(),
+  completedAt: null,
+  attachments: [],
+  application: createApplication(Date.now())
+});
+
+const AUTOSAVE_DELAY_MS = 800;
+
+// Steps before a resume is uploaded, the cross-session views and the multi-job comparison are not part of a session
+const UNSAVED_STEPS: Step[] = ['landing', 'upload', 'history', 'tracker', 'compare', 'progress', 'question-bank'];
+
+const STEP_LABELS: Record<Step, string> = {
+  'landing': "Start",
+  'upload': "Resume upload",
+  'job-desc': "Job description",
+  'analysis': "Analysis",
+  'dashboard': "Dashboard",
+  'cover-letter': "Cover letters",
+  'written-practice': "Written practice",
+  'verbal-practice': "Verbal practice",
+  'candidate-questions': "Questions to ask",
+  'mock-interview': "Mock interview",
+  'mock-analysis': "Interview debrief",
+  'summary': "Summary",
+  'history': "History",
+  'tracker': "Applications",
+  'compare': "Job comparison",
+  'progress': "Progress",
+  'question-bank': "Question bank"
+};
+
 const App = () => {
   const [currentStep, setCurrentStep] = useState<Step>('landing');
   const [loading, setLoading] = useState(false);
   const [loadingMessage, setLoadingMessage] = useState("");
+  // Only AI steps can be stopped from the loading screen; parsing a file can't
+  const [canStopLoading, setCanStopLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [activeTab, setActiveTab] = useState<'analysis' | 'optimized'>('analysis');
   const [jobInputMode, setJobInputMode] = useState<'text' | 'url'>('text');
+  const [jobUrlInput, setJobUrlInput] = useState("");
+  const [isImportingJob, setIsImportingJob] = useState(false);
   const [editingContent, setEditingContent] = useState<string | null>(null);
+  const [resumeDrafts, setResumeDrafts] = useState<{ name: string; content: string }[] | null>(null);
+  // Kept here rather than in the comparison view so results survive leaving it
+  const [comparisonJobs, setComparisonJobs] = useState<FitComparisonJob[]>([]);
   const [history, setHistory] = useState<SessionData[]>([]);
+  const [showImportModal, setShowImportModal] = useState(false);
+  const [includeAttachments, setIncludeAttachments] = useState(false);
+  const [drillAttempts, setDrillAttempts] = useState<DrillAttempt[]>([]);
   
   // Auth State
   const [user, setUser] = useState<User | null>(null);
+  // Decrypts this user's saved sessions; only ever held in memory
+  const [sessionKey, setSessionKey] = useState<CryptoKey | null>(null);
+  const [showChangePassphrase, setShowChangePassphrase] = useState(false);
   const [showAuthModal, setShowAuthModal] = useState(false);
+  const [showAISettings, setShowAISettings] = useState(false);
+  const generation = useAbortController();
+  // The resume rewrite streams in the background, so blocking steps started meanwhile must not cancel it
+  const resumeGeneration = useAbortController();
   
   // Back Navigation History Stack
   const [stepHistory, setStepHistory] = useState<Step[]>([]);
 
-  const navigateTo = (step: Step) => {
-    setStepHistory(prev => [...prev, currentStep]);
+  const [session, setSession] = useState<SessionData>(createEmptySession);
+
+  // The session remembers its own step and back stack so it can be resumed where it was left
+  const showStep = (step: Step, nextHistory: Step[]) => {
+    setStepHistory(nextHistory);
     setCurrentStep(step);
+    if (!UNSAVED_STEPS.includes(step)) {
+      setSession(prev => ({
+        ...prev,
+        lastStep: step,
+        stepHistory: nextHistory,
+        completedAt: prev.completedAt ?? (step === 'summary' ? Date.now() : null)
+      }));
+    }
     window.scrollTo(0, 0);
   };
 
+  const navigateTo = (step: Step) => showStep(step, [...stepHistory, currentStep]);
+
   const handleBack = () => {
     if (stepHistory.length === 0) return;
-    const prevStep = stepHistory[stepHistory.length - 1];
-    setStepHistory(prev => prev.slice(0, -1));
-    setCurrentStep(prevStep);
-    window.scrollTo(0, 0);
+    showStep(stepHistory[stepHistory.length - 1], stepHistory.slice(0, -1));
   };
 
-  const [session, setSession] = useState<SessionData>({
-    id: crypto.randomUUID(),
-    timestamp: Date.now(),
-    resumeText: "",
-    jobDescription: "",
-    fileName: "",
-    analysis: null,
-    optimizedResumes: [],
-    selectedResumeIndex: 0,
-    coverLetters: [],
-    selectedCoverLetterIndex: 0,
-    questions: [],
-    writtenAnswers: [],
-    verbalAnswers: [],
-    candidateQuestions: [],
-    mockInterviewTranscript: [],
-    mockInterviewFeedback: null
-  });
-
   useEffect(() => {
-    const savedUser = localStorage.getItem("cc_user_session");
-    if (savedUser) {
-      const parsedUser = JSON.parse(savedUser);
-      setUser(parsedUser);
-      loadHistory(parsedUser.email);
+    // Sign-in used to survive reloads; now the passphrase is needed each time to decrypt history
+    const legacyUser = localStorage.getItem("cc_user_session");
+    if (legacyUser) {
+      localStorage.setItem(LAST_ACCOUNT_KEY, normalizeEmail(JSON.parse(legacyUser).email ?? ""));
+      localStorage.removeItem("cc_user_session");
     }
   }, []);
 
-  const loadHistory = (email: string) => {
-    const savedHistory = localStorage.getItem(`cc_history_${email}`);
-    if (savedHistory) setHistory(JSON.parse(savedHistory));
+  const loadHistory = async (email: string, key: CryptoKey) => {
+    try {
+      await importLegacyHistory(email, key);
+      await encryptPlaintextSessions(email, key);
+      setHistory(await listStoredSessions(email, key));
+      setDrillAttempts(await listDrillAttempts(email, key));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load history");
+    }
+  };
+
+  // The open session as last read from or written to the store. Every edit replaces the session
+  // object, so a matching reference means there is nothing new to save and updatedAt stays put
+  const storedSessionRef = useRef<SessionData | null>(null);
+
+  const saveSessionToHistory = async (data: SessionData) => {
+    if (!user || !sessionKey || !data.resumeText || data === storedSessionRef.current) return;
+    const saved = { ...data, updatedAt: Date.now() };
+    try {
+      await saveStoredSession(user.email, sessionKey, saved);
+      storedSessionRef.current = data;
+      setHistory(prev => [saved, ...prev.filter(h => h.id !== saved.id)]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save session");
+    }
+  };
+
+  // Autosave once the session has been still for a moment; records are upserted by id
+  useEffect(() => {
+    if (!user || !sessionKey || !session.resumeText) return;
+    const timer = setTimeout(() => saveSessionToHistory(session), AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [session, user, sessionKey]);
+
+  const handleStartOver = async () => {
+    if (session.resumeText) {
+      if (user) await saveSessionToHistory(session);
+      else if (!confirm("Start over? You're not signed in, so this session hasn't been saved.")) return;
+    }
+    generation.stop();
+    resumeGeneration.stop();
+    setSession(createEmptySession());
+    setComparisonJobs([]);
+    setError(null);
+    setStepHistory([]);
+    setCurrentStep('landing');
+    window.scrollTo(0, 0);
+  };
+
+  const deleteSessionFromHistory = async (id: string) => {
+    if (!user || !confirm("Delete this saved session? This can't be undone.")) return;
+    try {
+      await deleteStoredSession(id);
+      setHistory(prev => prev.filter(h => h.id !== id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to delete session");
+    }
+  };
+
+  const exportSessions = (sessions: SessionData[]) => {
+    downloadBlob(buildSessionExport(sessions, includeAttachments), sessionExportFileName(sessions));
+  };
+
+  // Errors propagate to the import dialog, which shows them
+  const importSessions = async (sessions: SessionData[]) => {
+    if (!user || !sessionKey) return;
+    const imported = await importStoredSessions(user.email, sessionKey, sessions);
+    setHistory(await listStoredSessions(user.email, sessionKey));
+    // Keep the open session in step with a replaced copy, or the next autosave would undo the import
+    setSession(prev => {
+      const replaced = imported.find(s => s.id === prev.id);
+      if (!replaced) return prev;
+      storedSessionRef.current = replaced;
+      return replaced;
+    });
+  };
+
+  // Tracker edits go straight to the saved copy, and to the open session too if it's the same one
+  const updateSavedSession = async (id: string, update: (data: SessionData) => SessionData) => {
+    if (!user || !sessionKey) return;
+    const target = id === session.id ? session : history.find(h => h.id === id);
+    if (!target) return;
+    const updated = { ...update(target), updatedAt: Date.now() };
+    if (id === session.id) {
+      storedSessionRef.current = updated;
+      setSession(updated);
+    }
+    setHistory(prev => [updated, ...prev.filter(h => h.id !== id)]);
+    try {
+      await saveStoredSession(user.email, sessionKey, updated);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save session");
+    }
   };
 
-  const saveHistoryToStorage = (updatedHistory: SessionData[]) => {
-    if (user) {
-      localStorage.setItem(`cc_history_${user.email}`, JSON.stringify(updatedHistory));
+  // The drill shows its own grading errors; a failed save is reported like any other
+  const recordDrillAttempt = async (attempt: DrillAttempt) => {
+    setDrillAttempts(prev => [...prev, attempt]);
+    if (!user || !sessionKey) return;
+    try {
+      await saveDrillAttempt(user.email, sessionKey, attempt);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save drill answer");
     }
   };
 
-  const handleLogin = (newUser: User) => {
+  const handleLogin = (newUser: User, key: CryptoKey) => {
     setUser(newUser);
-    loadHistory(newUser.email);
+    setSessionKey(key);
+    openAICache(newUser.email, key);
+    loadHistory(newUser.email, key);
   };
 
-  const handleLogout = () => {
-    localStorage.removeItem("cc_user_session");
+  // Signing out drops the key, and with it the open session, so nothing stays readable
+  const handleLogout = async () => {
+    await saveSessionToHistory(session);
+    generation.stop();
+    resumeGeneration.stop();
+    closeAICache();
     setUser(null);
+    setSessionKey(null);
     setHistory([]);
+    setDrillAttempts([]);
+    setSession(createEmptySession());
+    setComparisonJobs([]);
     setCurrentStep('landing');
     setStepHistory([]);
   };
 
+  // A compared role becomes its own session, starting from the analysis already run for it
+  const startSessionFromComparison = async (job: FitComparisonJob) => {
+    if (user) await saveSessionToHistory(session);
+    else if (!confirm("Open this role as a new session? You're not signed in, so the current session hasn't been saved.")) return;
+    resumeGeneration.stop();
+    const next = createEmptySession();
+    setSession({
+      ...next,
+      resumeText: session.resumeText,
+      parsedResume: session.parsedResume,
+      fileName: session.fileName,
+      attachments: session.attachments,
+      jobDescription: job.description,
+      jobUrl: job.url,
+      jobTitle: job.title,
+      company: job.company,
+      jobLocation: job.location,
+      analysis: job.analysis,
+      promptVersions: { analysis: job.promptVersion }
+    });
+    setActiveTab('analysis');
+    showStep('analysis', ['job-desc']);
+  };
+
   const loadSessionFromHistory = (data: SessionData) => {
+    resumeGeneration.stop();
+    storedSessionRef.current = data;
     setSession(data);
-    navigateTo('dashboard');
+    if (data.completedAt) navigateTo('dashboard');
+    else showStep(data.lastStep, data.stepHistory);
   };
 
   // --- ANALYSIS HANDLERS ---
   const handleFileUpload = async (file: File) => {
     setLoading(true);
     setLoadingMessage("Parsing document...");
+    setError(null);
     try {
-      let text = "";
-      if (file.type === "text/plain") text = await file.text();
-      else if (file.type.includes("pdf")) {
-         const arrayBuffer = await file.arrayBuffer();
-         const pdf = await pdfjsLib.getDocument({ data: arrayBuffer }).promise;
-         for (let i = 1; i <= pdf.numPages; i++) {
-           const page = await pdf.getPage(i);
-           const content = await page.getTextContent();
-           text += content.items.map((item: any) => item.str).join(" ") + "\n";
-         }
-      } else {
-        // Fallback for demo if mammoth/pdf fails or simplified
-        text = "Sample Resume Text extracted from file...";
-      }
-      setSession(prev => ({ ...prev, resumeText: text, fileName: file.name }));
+      const text = await extractResumeText(file);
+      if (!text.trim()) throw new Error("No text could be extracted from this file. Is it a scanned image?");
+      const attachment = await readResumeAttachment(file);
+      setSession(prev => ({
+        ...prev,
+        resumeText: text,
+        parsedResume: parseResumeStructure(text),
+        fileName: file.name,
+        attachments: [...prev.attachments.filter(a => a.kind !== 'resume'), ...(attachment ? [attachment] : [])]
+      }));
       navigateTo('job-desc');
-    } catch (err) { console.error(err); setError("Failed to parse"); } 
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : "Failed to parse");
+    }
     finally { setLoading(false); }
   };
 
-  const handleAnalyze = async () => {
+  const handleImportJob = async () => {
+    const url = jobUrlInput.trim();
+    if (!url) return;
+    setIsImportingJob(true);
+    setError(null);
+    try {
+      const posting = await fetchJobPosting(url);
+      setSession(prev => ({
+        ...prev,
+        jobUrl: url,
+        jobDescription: posting.description,
+        jobTitle: posting.title || prev.jobTitle,
+        company: posting.company || prev.company,
+        jobLocation: posting.location || prev.jobLocation
+      }));
+      // Show the extracted text so it can be reviewed before analysis
+      setJobInputMode('text');
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : "Failed to import job posting");
+    }
+    finally { setIsImportingJob(false); }
+  };
+
+  const startBlockingGeneration = (message: string) => {
     setLoading(true);
-    setLoadingMessage("AI is analyzing your resume fit...");
+    setLoadingMessage(message);
+    setCanStopLoading(true);
+    return generation.start();
+  };
+
+  const finishBlockingGeneration = () => {
+    setLoading(false);
+    setCanStopLoading(false);
+  };
+
+  const handleAnalyze = async (fresh = false) => {
+    const signal = startBlockingGeneration("AI is analyzing your resume fit...");
     try {
-      const result = await analyzeWithGemini(`
-        You are an ATS analyzer.
-        Resume: ${session.resumeText}
-        Job: ${session.jobDescription}
-        Output JSON with match_score (0-100), missing_keywords (array), skills_gap (array), recommendations (array of objects with priority, suggestion, location).
-      `, "gemini-2.5-flash", {
-        type: Type.OBJECT,
-        properties: {
-          match_score: { type: Type.NUMBER },
-          missing_keywords: { type: Type.ARRAY, items: { type: Type.STRING } },
-          skills_gap: { type: Type.ARRAY, items: { type: Type.STRING } },
-          recommendations: { type: Type.ARRAY, items: { type: Type.OBJECT, properties: { priority: { type: Type.STRING }, suggestion: { type: Type.STRING }, location: { type: Type.STRING } } } }
+      const prompt = renderPrompt(PROMPTS.atsAnalysis, { resumeText: session.resumeText, jobDescription: session.jobDescription });
+      const result = await generateWithAI('analyze', prompt, ANALYSIS_SCHEMA, { signal, fresh });
+      setSession(prev => ({ ...prev, analysis: result, promptVersions: { ...prev.promptVersions, analysis: prompt.version } }));
+      setActiveTab('analysis');
+      if (currentStep !== 'analysis') navigateTo('analysis');
+    } catch (err) {
+      if (isAbortError(err)) return;
+      console.error(err);
+      setError(getErrorMessage(err, "Analysis failed"));
+    }
+    finally { finishBlockingGeneration(); }
+  };
+
+  // Drafts are streamed into the Optimized Resumes tab rather than behind the loading screen
+  const handleOptimizeResume = async (fresh: boolean) => {
+    const signal = resumeGeneration.start();
+    setEditingContent(null);
+    setResumeDrafts([]);
+    try {
+      const prompt = renderPrompt(PROMPTS.resumeRewrite, {
+        resumeText: session.resumeText,
+        jobDescription: session.jobDescription,
+        recommendations: session.analysis?.recommendations ?? [],
+        missingKeywords: session.analysis?.missing_keywords ?? []
+      });
+      const result = await generateWithAI('optimize-resume', prompt, RESUME_VERSIONS_SCHEMA, {
+        signal,
+        fresh,
+        onText: text => {
+          const names = readPartialJsonStrings(text, "name");
+          setResumeDrafts(readPartialJsonStrings(text, "content").map((content, i) => ({ name: names[i] ?? RESUME_VARIANTS[i]?.name ?? `Draft ${i + 1}`, content })));
         }
       });
-      setSession(prev => ({ ...prev, analysis: result }));
-      navigateTo('analysis');
-    } catch (err) { setError("Analysis failed"); }
-    finally { setLoading(false); }
+      const versions: ResumeVersion[] = result.versions.map((v, i) => ({
+        id: crypto.randomUUID(),
+        name: v.name,
+        content: v.content,
+        isSelected: i === 0
+      }));
+      setSession(prev => ({ ...prev, optimizedResumes: versions, selectedResumeIndex: 0, promptVersions: { ...prev.promptVersions, optimizedResumes: prompt.version } }));
+    } catch (err) {
+      if (isAbortError(err)) return;
+      console.error(err);
+      setError(getErrorMessage(err, "Failed to optimize resume"));
+    }
+    finally { setResumeDrafts(null); }
+  };
+
+  const handleAnalyzeMockInterview = async () => {
+    const transcript = session.mockInterviewTranscript;
+    if (!transcript.some(t => t.role === 'user')) {
+      navigateTo('summary');
+      return;
+    }
+    const signal = startBlockingGeneration("The hiring manager is writing up your interview...");
+    try {
+      const prompt = renderPrompt(PROMPTS.mockDebrief, { jobDescription: session.jobDescription, transcript });
+      const result = await generateWithAI('mock-analysis', prompt, MOCK_FEEDBACK_SCHEMA, { signal });
+      setSession(prev => ({ ...prev, mockInterviewFeedback: result, promptVersions: { ...prev.promptVersions, mockInterviewFeedback: prompt.version } }));
+      navigateTo('mock-analysis');
+    } catch (err) {
+      if (isAbortError(err)) return;
+      console.error(err);
+      setError(getErrorMessage(err, "Failed to analyze mock interview"));
+    }
+    finally { finishBlockingGeneration(); }
   };
 
-  const handleGenerateQuestions = async () => {
-     setLoading(true);
-     setLoadingMessage("Generating questions...");
+  const handleGenerateQuestions = async (nextStep: Step = 'written-practice') => {
+     const signal = startBlockingGeneration("Generating questions...");
      try {
-       const result = await analyzeWithGemini(`
-         Generate 5 interview questions (behavioral/technical) for this resume/job.
-         Resume: ${session.resumeText.substring(0, 500)}...
-         Job: ${session.jobDescription.substring(0, 500)}...
-         Output JSON with 'questions' array.
-       `, "gemini-2.5-flash", {
-         type: Type.OBJECT,
-         properties: {
-           questions: { type: Type.ARRAY, items: { type: Type.OBJECT, properties: { type: { type: Type.STRING }, question: { type: Type.STRING }, why_asked: { type: Type.STRING } } } }
-         }
-       });
-       setSession(prev => ({ ...prev, questions: result.questions }));
-       navigateTo('written-practice');
-     } catch (err) { console.error(err); setError("Failed to generate questions"); }
-     finally { setLoading(false); }
-  };
-
-  if (loading) return <LoadingScreen message={loadingMessage} />;
+       const prompt = renderPrompt(PROMPTS.interviewQuestions, { resumeText: session.resumeText, jobDescription: session.jobDescription });
+       const result = await generateWithAI('generate-questions', prompt, INTERVIEW_QUESTIONS_SCHEMA, { signal });
+       // Repair can't invent questions, and both practice modes need at least one to show
+       const questions = result.questions.filter(q => q.question.trim());
+       if (questions.length === 0) {
+         throw new AIError("The AI didn't return any interview questions. Please try again.", 'generate-questions', 'invalid-response', ["questions is empty"]);
+       }
+       setSession(prev => ({ ...prev, questions, promptVersions: { ...prev.promptVersions, questions: prompt.version } }));
+       navigateTo(nextStep);
+     } catch (err) {
+       if (isAbortError(err)) return;
+       console.error(err);
+       setError(getErrorMessage(err, "Failed to generate questions"));
+     }
+     finally { finishBlockingGeneration(); }
+  };
+
+  if (loading) return <LoadingScreen message={loadingMessage} onCancel={canStopLoading ? generation.stop : undefined} />;
 
   return (
     <div className="min-h-screen bg-gray-50 flex flex-col font-sans">
@@ -844,14 +6607,30 @@ const App = () => {
         onLoginClick={() => setShowAuthModal(true)} 
         onLogoutClick={handleLogout} 
         onGoToHistory={() => navigateTo('history')}
+        onGoToTracker={() => navigateTo('tracker')}
+        onGoToQuestionBank={() => navigateTo('question-bank')}
+        onOpenSettings={() => setShowAISettings(true)}
+        onChangePassphrase={() => setShowChangePassphrase(true)}
+        onHome={handleStartOver}
         onBack={handleBack}
-        showBack={currentStep !== 'landing' && currentStep !== 'history'}
+        showBack={currentStep !== 'landing' && currentStep !== 'history' && currentStep !== 'tracker' && currentStep !== 'progress' && currentStep !== 'question-bank'}
       />
       <ProgressBar step={currentStep} />
-      <AuthModal isOpen={showAuthModal} onClose={() => setShowAuthModal(false)} onLogin={handleLogin} />
+      {showAuthModal && <AuthModal onClose={() => setShowAuthModal(false)} onLogin={handleLogin} />}
+      {showImportModal && <SessionImportModal existing={history} onImport={importSessions} onClose={() => setShowImportModal(false)} />}
+      {showChangePassphrase && user && <ChangePassphraseModal email={user.email} onClose={() => setShowChangePassphrase(false)} />}
+      {showAISettings && <AISettingsModal onClose={() => setShowAISettings(false)} />}
 
       <main className="flex-grow max-w-5xl mx-auto w-full px-4 sm:px-6 py-8 sm:py-12">
         
+        {error && (
+          <div className="max-w-2xl mx-auto mb-6 p-4 bg-red-50 border border-red-100 rounded-xl flex items-start gap-3 text-red-700 animate-fade-in">
+            <AlertCircle className="w-5 h-5 flex-shrink-0 mt-0.5" />
+            <p className="flex-1 text-sm">{error}</p>
+            <button onClick={() => setError(null)} className="text-red-400 hover:text-red-600"><X className="w-4 h-4" /></button>
+          </div>
+        )}
+
         {/* LANDING */}
         {currentStep === 'landing' && (
           <div className="text-center pt-10 animate-fade-in">
@@ -868,11 +6647,12 @@ const App = () => {
            <div className="max-w-xl mx-auto animate-fade-in text-center pt-10">
               <h2 className="text-3xl font-bold mb-6">Upload Resume</h2>
               <div className="border-2 border-dashed border-gray-300 rounded-2xl p-10 hover:border-primary transition-colors cursor-pointer relative">
-                <input type="file" onChange={(e) => e.target.files && handleFileUpload(e.target.files[0])} className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"/>
+                <input type="file" accept=".pdf,.docx,.odt,.rtf,.txt,.md" onChange={(e) => e.target.files && handleFileUpload(e.target.files[0])} className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"/>
                 <Upload className="w-12 h-12 text-gray-400 mx-auto mb-4" />
                 <p className="text-gray-600">Drag & drop or click to upload PDF/DOCX</p>
+                <p className="text-xs text-gray-400 mt-1">ODT, RTF and plain text also supported</p>
               </div>
-              <button onClick={() => { setSession(prev => ({...prev, resumeText: "Mock Resume Text"})); navigateTo('job-desc'); }} className="mt-8 text-xs text-gray-400 underline">Skip (Debug Mode)</button>
+              <button onClick={() => { setSession(prev => ({...prev, resumeText: "Mock Resume Text", parsedResume: parseResumeStructure("Mock Resume Text")})); navigateTo('job-desc'); }} className="mt-8 text-xs text-gray-400 underline">Skip (Debug Mode)</button>
            </div>
         )}
         
@@ -880,10 +6660,33 @@ const App = () => {
         {currentStep === 'job-desc' && (
            <div className="max-w-2xl mx-auto animate-fade-in">
               <h2 className="text-2xl font-bold mb-4">Job Description</h2>
-              <p className="text-gray-600 mb-4">Paste the job description below to tailor your analysis.</p>
-              <textarea className="w-full h-64 border border-gray-200 rounded-xl p-4 focus:ring-2 focus:ring-primary outline-none" value={session.jobDescription} onChange={e => setSession(prev => ({...prev, jobDescription: e.target.value}))} placeholder="Paste JD here..."></textarea>
-              <div className="flex justify-end mt-6">
-                <button onClick={handleAnalyze} disabled={!session.jobDescription} className="px-8 py-3 bg-primary text-white rounded-lg font-bold hover:bg-primaryDark disabled:opacity-50">Analyze Fit</button>
+              <p className="text-gray-600 mb-4">Paste the job description or import it from the posting's URL to tailor your analysis.</p>
+              {session.parsedResume && <ParsedResumeSummary resume={session.parsedResume} fileName={session.fileName} attachment={session.attachments.find(a => a.kind === 'resume')} />}
+              <div className="flex gap-2 mb-4 bg-gray-100 p-1 rounded-xl w-fit">
+                 <button onClick={() => setJobInputMode('text')} className={`px-4 py-2 rounded-lg text-sm font-bold flex items-center gap-2 ${jobInputMode === 'text' ? 'bg-white shadow-sm text-gray-900' : 'text-gray-500'}`}><FileText className="w-4 h-4" /> Paste Text</button>
+                 <button onClick={() => setJobInputMode('url')} className={`px-4 py-2 rounded-lg text-sm font-bold flex items-center gap-2 ${jobInputMode === 'url' ? 'bg-white shadow-sm text-gray-900' : 'text-gray-500'}`}><LinkIcon className="w-4 h-4" /> Import from URL</button>
+              </div>
+              {jobInputMode === 'url' ? (
+                 <div className="flex gap-3">
+                    <input type="url" className="flex-1 border border-gray-200 rounded-xl px-4 py-3 focus:ring-2 focus:ring-primary outline-none" value={jobUrlInput} onChange={e => setJobUrlInput(e.target.value)} onKeyDown={e => { if (e.key === 'Enter') handleImportJob(); }} placeholder="https://careers.example.com/jobs/123" />
+                    <button onClick={handleImportJob} disabled={!jobUrlInput.trim() || isImportingJob} className="px-6 py-3 bg-gray-900 text-white rounded-xl font-bold hover:bg-black disabled:opacity-50 flex items-center gap-2">
+                       {isImportingJob ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />} Import
+                    </button>
+                 </div>
+              ) : (
+                 <>
+                    <div className="grid sm:grid-cols-3 gap-3 mb-3">
+                       <input className="border border-gray-200 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-primary outline-none" value={session.jobTitle ?? ""} onChange={e => setSession(prev => ({...prev, jobTitle: e.target.value}))} placeholder="Job title" />
+                       <input className="border border-gray-200 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-primary outline-none" value={session.company ?? ""} onChange={e => setSession(prev => ({...prev, company: e.target.value}))} placeholder="Company" />
+                       <input className="border border-gray-200 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-primary outline-none" value={session.jobLocation ?? ""} onChange={e => setSession(prev => ({...prev, jobLocation: e.target.value}))} placeholder="Location" />
+                    </div>
+                    {session.jobUrl && <p className="text-xs text-gray-400 mb-2 truncate">Imported from <a href={session.jobUrl} target="_blank" rel="noreferrer" className="underline">{session.jobUrl}</a></p>}
+                    <textarea className="w-full h-64 border border-gray-200 rounded-xl p-4 focus:ring-2 focus:ring-primary outline-none" value={session.jobDescription} onChange={e => setSession(prev => ({...prev, jobDescription: e.target.value}))} placeholder="Paste JD here..."></textarea>
+                 </>
+              )}
+              <div className="flex items-center justify-end gap-4 mt-6">
+                <button onClick={() => navigateTo('compare')} className="text-sm font-medium text-gray-500 hover:text-primary">Compare against several jobs</button>
+                <button onClick={() => handleAnalyze()} disabled={!session.jobDescription} className="px-8 py-3 bg-primary text-white rounded-lg font-bold hover:bg-primaryDark disabled:opacity-50">Analyze Fit</button>
               </div>
            </div>
         )}
@@ -891,36 +6694,81 @@ const App = () => {
         {/* ANALYSIS RESULT */}
         {currentStep === 'analysis' && session.analysis && (
            <div className="animate-fade-in">
-              <div className="bg-white p-8 rounded-2xl shadow-sm text-center mb-8 border border-gray-100">
-                 <div className="text-5xl font-extrabold text-primary mb-2">{session.analysis.match_score}%</div>
-                 <p className="text-gray-500 font-medium uppercase tracking-wide text-sm mb-6">Match Score</p>
-                 <p className="text-gray-600 mb-8 max-w-lg mx-auto">We've analyzed your resume against the job description. Head to the dashboard to start optimizing your application and preparing for the interview.</p>
-                 <button onClick={() => navigateTo('dashboard')} className="px-8 py-3 bg-gray-900 text-white rounded-lg font-bold hover:bg-black shadow-lg transition-transform hover:scale-105">
-                   Go to Dashboard
-                 </button>
+              <div className="flex items-center justify-between mb-6">
+                 <div className="flex gap-2 bg-gray-100 p-1 rounded-xl w-fit">
+                    <button onClick={() => setActiveTab('analysis')} className={`px-4 py-2 rounded-lg text-sm font-bold ${activeTab === 'analysis' ? 'bg-white shadow-sm text-gray-900' : 'text-gray-500'}`}>Analysis</button>
+                    <button onClick={() => setActiveTab('optimized')} className={`px-4 py-2 rounded-lg text-sm font-bold ${activeTab === 'optimized' ? 'bg-white shadow-sm text-gray-900' : 'text-gray-500'}`}>Optimized Resumes</button>
+                 </div>
+                 {activeTab === 'analysis' && (
+                    <button onClick={() => handleAnalyze(true)} className="px-3 py-2 text-sm text-gray-500 hover:text-primary flex items-center gap-1">
+                       <RefreshCw className="w-4 h-4" /> Re-run Analysis
+                    </button>
+                 )}
               </div>
+              {activeTab === 'analysis' ? (
+                 <>
+                   <PromptMismatchNote message={describePromptMismatch(session.promptVersions.analysis, PROMPTS.atsAnalysis)} />
+                   <AnalysisReport analysis={session.analysis} resumeText={session.resumeText} jobDescription={session.jobDescription} onContinue={() => navigateTo('dashboard')} />
+                 </>
+              ) : (
+                 <OptimizedResumes
+                   versions={session.optimizedResumes}
+                   originalText={session.resumeText}
+                   editingContent={editingContent}
+                   onEditingChange={setEditingContent}
+                   onGenerate={handleOptimizeResume}
+                   streamingDrafts={resumeDrafts}
+                   onStop={resumeGeneration.stop}
+                   fileName={session.fileName}
+                   jobTitle={session.jobTitle}
+                   onChange={(versions) => setSession(prev => ({
+                     ...prev,
+                     optimizedResumes: versions,
+                     selectedResumeIndex: Math.max(0, versions.findIndex(v => v.isSelected))
+                   }))}
+                 />
+              )}
            </div>
         )}
 
         {/* DASHBOARD */}
         {currentStep === 'dashboard' && (
           <Dashboard onSelectStep={(s) => {
-             if (s === 'written-practice' && session.questions.length === 0) {
-               handleGenerateQuestions();
+             if ((s === 'written-practice' || s === 'verbal-practice') && session.questions.length === 0) {
+               handleGenerateQuestions(s);
+             } else if (s === 'analysis') {
+               setActiveTab('optimized');
+               navigateTo(s);
              } else {
                navigateTo(s);
              }
           }} />
         )}
 
+        {/* COVER LETTERS */}
+        {currentStep === 'cover-letter' && (
+           <CoverLetterBuilder
+             resumeText={session.optimizedResumes[session.selectedResumeIndex]?.content || session.resumeText}
+             jobDescription={session.jobDescription}
+             letters={session.coverLetters}
+             onChange={(update) => setSession(prev => {
+               const coverLetters = update(prev.coverLetters);
+               return { ...prev, coverLetters, selectedCoverLetterIndex: Math.max(0, coverLetters.findIndex(l => l.isSelected)) };
+             })}
+             onComplete={() => navigateTo('dashboard')}
+             fileName={session.fileName}
+             jobTitle={session.jobTitle}
+           />
+        )}
+
         {/* WRITTEN PRACTICE */}
         {currentStep === 'written-practice' && (
            <WrittenPracticeSession 
              questions={session.questions} 
              jobDescription={session.jobDescription} 
              existingAnswers={session.writtenAnswers}
-             onAnswerSubmit={(idx, ans, fb) => {
-                const newAnswers = [...session.writtenAnswers.filter(a => a.questionIndex !== idx), { questionIndex: idx, answer: ans, feedback: fb }];
+             onAnswerSubmit={(idx, ans, graded) => {
+                const newAnswers = [...session.writtenAnswers.filter(a => a.questionIndex !== idx), { questionIndex: idx, answer: ans, feedback: graded.feedback, promptVersion: graded.promptVersion, answeredAt: Date.now() }];
                 setSession(prev => ({...prev, writtenAnswers: newAnswers}));
              }}
              onComplete={() => navigateTo('verbal-practice')}
@@ -929,41 +6777,103 @@ const App = () => {
         
         {/* VERBAL PRACTICE */}
         {currentStep === 'verbal-practice' && (
-           <div className="text-center py-20 animate-fade-in">
-              <div className="w-20 h-20 bg-orange-100 rounded-full flex items-center justify-center mx-auto mb-6">
-                 <Mic className="w-10 h-10 text-orange-600" />
-              </div>
-              <h2 className="text-3xl font-bold text-gray-900 mb-4">Verbal Practice</h2>
-              <p className="text-gray-600 mb-8 max-w-lg mx-auto">Practice speaking your answers aloud. This module uses speech recognition to transcribe and analyze your delivery.</p>
-              <button onClick={() => navigateTo('candidate-questions')} className="px-8 py-3 bg-primary text-white rounded-lg font-bold hover:bg-primaryDark">
-                 Next: Strategic Questions
-              </button>
-           </div>
+           <VerbalPracticeSession
+             questions={session.questions}
+             jobDescription={session.jobDescription}
+             existingAnswers={session.verbalAnswers}
+             onAnswerSubmit={(answer) => {
+                setSession(prev => ({...prev, verbalAnswers: [...prev.verbalAnswers.filter(a => a.questionIndex !== answer.questionIndex), answer]}));
+             }}
+             onComplete={() => navigateTo('candidate-questions')}
+           />
         )}
 
         {/* CANDIDATE QUESTIONS */}
         {currentStep === 'candidate-questions' && (
-           <div className="text-center py-20 animate-fade-in">
-              <div className="w-20 h-20 bg-purple-100 rounded-full flex items-center justify-center mx-auto mb-6">
-                 <HelpCircle className="w-10 h-10 text-purple-600" />
-              </div>
-              <h2 className="text-3xl font-bold text-gray-900 mb-4">Questions to Ask</h2>
-              <p className="text-gray-600 mb-8 max-w-lg mx-auto">Don't leave the interview without asking these 5 strategic questions to show your interest and close the deal.</p>
-              <button onClick={() => navigateTo('mock-interview')} className="px-8 py-3 bg-primary text-white rounded-lg font-bold hover:bg-primaryDark">
-                 Next: Real Mock Interview
-              </button>
-           </div>
+           <CandidateQuestionsBoard
+             questions={session.candidateQuestions}
+             resumeText={session.resumeText}
+             jobDescription={session.jobDescription}
+             skillsGap={session.analysis?.skills_gap ?? []}
+             onChange={(update) => setSession(prev => ({...prev, candidateQuestions: update(prev.candidateQuestions)}))}
+             onComplete={() => navigateTo('mock-interview')}
+           />
         )}
 
         {/* MOCK INTERVIEW */}
         {currentStep === 'mock-interview' && (
-           <MockInterviewSession onComplete={() => navigateTo('summary')} />
+           <MockInterviewSession
+             resumeText={session.optimizedResumes[session.selectedResumeIndex]?.content || session.resumeText}
+             jobDescription={session.jobDescription}
+             questions={session.questions}
+             transcript={session.mockInterviewTranscript}
+             onTranscriptChange={(transcript) => setSession(prev => ({...prev, mockInterviewTranscript: transcript}))}
+             onComplete={handleAnalyzeMockInterview}
+           />
+        )}
+
+        {/* MOCK ANALYSIS */}
+        {currentStep === 'mock-analysis' && session.mockInterviewFeedback && (
+           <MockInterviewReport
+             transcript={session.mockInterviewTranscript}
+             feedback={session.mockInterviewFeedback}
+             onContinue={() => navigateTo('summary')}
+           />
+        )}
+
+        {/* COMPARE, TRACKER, PROGRESS, QUESTION BANK & HISTORY */}
+        {currentStep === 'compare' && (
+           <div className="max-w-5xl mx-auto animate-fade-in pb-20">
+              <h2 className="text-2xl font-bold mb-2">Compare Jobs</h2>
+              <p className="text-gray-600 mb-6">Score {session.fileName || "your resume"} against several postings at once to see where you fit best and which gaps keep coming up.</p>
+              <FitComparison resumeText={session.resumeText} jobs={comparisonJobs} onJobsChange={setComparisonJobs} onStartSession={startSessionFromComparison} />
+           </div>
+        )}
+
+        {currentStep === 'tracker' && (
+           <div className="max-w-4xl mx-auto animate-fade-in pb-20">
+              <h2 className="text-2xl font-bold mb-6">Applications</h2>
+              <ApplicationTracker sessions={history} onUpdate={updateSavedSession} onOpen={loadSessionFromHistory} />
+           </div>
+        )}
+
+        {currentStep === 'progress' && (
+           <div className="max-w-5xl mx-auto animate-fade-in pb-20">
+              <h2 className="text-2xl font-bold mb-2">Progress</h2>
+              <p className="text-gray-600 mb-6">How your resume match and practice scores have moved across {history.length} saved {history.length === 1 ? "session" : "sessions"}.</p>
+              <ProgressAnalytics sessions={history} drillAttempts={drillAttempts} />
+           </div>
+        )}
+
+        {currentStep === 'question-bank' && (
+           <div className="max-w-4xl mx-auto animate-fade-in pb-20">
+              <h2 className="text-2xl font-bold mb-2">Question Bank</h2>
+              <p className="text-gray-600 mb-6">Every interview question from your saved sessions, with repeats merged and reviews spaced out by how well you answered.</p>
+              <QuestionBankView sessions={history} drillAttempts={drillAttempts} onRecordAttempt={recordDrillAttempt} />
+           </div>
         )}
 
-        {/* HISTORY */}
         {currentStep === 'history' && (
            <div className="max-w-4xl mx-auto animate-fade-in">
-              <h2 className="text-2xl font-bold mb-6">History</h2>
+              <div className="flex flex-wrap items-center gap-3 mb-6">
+                 <h2 className="text-2xl font-bold flex-1">History</h2>
+                 {history.length > 0 && (
+                    <>
+                       <button onClick={() => navigateTo('progress')} className="px-4 py-2 border border-gray-200 rounded-lg text-sm font-medium text-gray-700 hover:bg-gray-50 flex items-center gap-2">
+                          <TrendingUp className="w-4 h-4" /> Progress
+                       </button>
+                       <label className="text-sm text-gray-600 flex items-center gap-2" title="Include uploaded resume files in exports">
+                          <input type="checkbox" checked={includeAttachments} onChange={e => setIncludeAttachments(e.target.checked)} /> Include attachments
+                       </label>
+                       <button onClick={() => exportSessions(history)} className="px-4 py-2 border border-gray-200 rounded-lg text-sm font-medium text-gray-700 hover:bg-gray-50 flex items-center gap-2">
+                          <Download className="w-4 h-4" /> Export All
+                       </button>
+                    </>
+                 )}
+                 <button onClick={() => setShowImportModal(true)} className="px-4 py-2 border border-gray-200 rounded-lg text-sm font-medium text-gray-700 hover:bg-gray-50 flex items-center gap-2">
+                    <Upload className="w-4 h-4" /> Import
+                 </button>
+              </div>
               {history.length === 0 ? (
                  <p className="text-gray-500">No history found. Start a new analysis.</p>
               ) : (
@@ -971,12 +6881,29 @@ const App = () => {
                     {history.map(h => (
                        <div key={h.id} className="bg-white p-6 rounded-xl shadow-sm border border-gray-100 flex justify-between items-center hover:shadow-md transition-shadow">
                           <div>
-                             <div className="font-bold text-lg text-gray-900">{h.fileName || "Untitled Resume"}</div>
-                             <div className="text-sm text-gray-500">{new Date(h.timestamp).toLocaleDateString()} • {h.analysis?.match_score}% Match</div>
+                             <div className="font-bold text-lg text-gray-900 flex items-center gap-2">
+                                {h.fileName || "Untitled Resume"}
+                                {!h.completedAt && <span className="px-2 py-0.5 bg-blue-50 text-primary text-xs font-semibold rounded-full">In progress • {STEP_LABELS[h.lastStep]}</span>}
+                             </div>
+                             <div className="text-sm text-gray-500">
+                                {new Date(h.updatedAt).toLocaleDateString()}
+                                {h.analysis && ` • ${h.analysis.match_score}% Match`}
+                             </div>
+                             {h.analysis && h.promptVersions.analysis !== currentPromptVersion(PROMPTS.atsAnalysis) && (
+                                <div className="text-xs text-amber-600 mt-1">Scored with {h.promptVersions.analysis ?? "an unversioned prompt"}</div>
+                             )}
+                          </div>
+                          <div className="flex items-center gap-2">
+                             <button onClick={() => exportSessions([h])} className="p-2 text-gray-400 hover:text-primary rounded-lg" title="Export session">
+                                <Download className="w-4 h-4" />
+                             </button>
+                             <button onClick={() => deleteSessionFromHistory(h.id)} className="p-2 text-gray-400 hover:text-error rounded-lg" title="Delete session">
+                                <X className="w-4 h-4" />
+                             </button>
+                             <button onClick={() => loadSessionFromHistory(h)} className="px-4 py-2 bg-gray-100 hover:bg-gray-200 rounded-lg text-sm font-medium text-gray-700">
+                                {h.completedAt ? "Load Session" : "Resume"}
+                             </button>
                           </div>
-                          <button onClick={() => loadSessionFromHistory(h)} className="px-4 py-2 bg-gray-100 hover:bg-gray-200 rounded-lg text-sm font-medium text-gray-700">
-                             Load Session
-                          </button>
                        </div>
                     ))}
                  </div>
@@ -986,29 +6913,19 @@ const App = () => {
 
         {/* SUMMARY */}
         {currentStep === 'summary' && (
-           <div className="text-center py-20 animate-fade-in">
-              <div className="w-20 h-20 bg-green-100 rounded-full flex items-center justify-center mx-auto mb-6">
-                 <CheckCircle className="w-10 h-10 text-green-600" />
-              </div>
-              <h2 className="text-3xl font-bold text-gray-900 mb-4">Session Complete!</h2>
-              <p className="text-gray-600 mb-8">You've completed the full interview preparation loop.</p>
-              <div className="flex justify-center gap-4">
+           <div className="max-w-4xl mx-auto animate-fade-in pb-20">
+              <SessionSummaryReport session={session} onSelectStep={navigateTo} />
+              <div className="flex justify-center gap-4 mt-8">
                  <button onClick={() => navigateTo('dashboard')} className="px-6 py-3 bg-gray-900 text-white rounded-lg font-bold hover:bg-black">
                     Back to Dashboard
                  </button>
-                 <button onClick={() => {
-                    if (user) {
-                       const newHistory = [session, ...history];
-                       setHistory(newHistory);
-                       saveHistoryToStorage(newHistory);
-                       alert("Saved to history!");
-                    } else {
-                       setShowAuthModal(true);
-                    }
-                 }} className="px-6 py-3 border border-gray-300 text-gray-700 rounded-lg font-bold hover:bg-gray-50">
-                    Save Progress
-                 </button>
+                 {!user && (
+                    <button onClick={() => setShowAuthModal(true)} className="px-6 py-3 border border-gray-300 text-gray-700 rounded-lg font-bold hover:bg-gray-50">
+                       Sign In to Save
+                    </button>
+                 )}
               </div>
+              {user && <p className="text-sm text-gray-400 mt-6 text-center">Your progress is saved to History automatically.</p>}
            </div>
         )}
 
@@ -0,0 +1,56 @@
+// @vitest-environment jsdom
+import { readFileSync } from "fs";
+import path from "path";
+import { describe, expect, it } from "vitest";
+import { extractJobPosting } from "./jobImport";
+
+const fixture = (name: string) => readFileSync(path.join(__dirname, "fixtures/job-pages", name), "utf8");
+
+describe("extractJobPosting", () => {
+  it("reads schema.org JobPosting data", () => {
+    const posting = extractJobPosting(fixture("json-ld.html"));
+    expect(posting).toMatchObject({
+      title: "Senior Backend Engineer",
+      company: "Acme Payments",
+      location: "Seattle, WA, US",
+      source: 'json-ld'
+    });
+  });
+
+  it("turns the HTML description into plain text with bullets and line breaks", () => {
+    const { description } = extractJobPosting(fixture("json-ld.html"));
+    expect(description).toBe([
+      "Acme Payments moves money for small businesses.",
+      "What you'll do",
+      "- Design and build payment APIs in Go",
+      "- Own the reliability of our ledger",
+      "Requirements:",
+      "5+ years of backend experience",
+      "PostgreSQL at scale"
+    ].join("\n"));
+  });
+
+  it("finds a posting inside @graph, skipping unreadable JSON-LD blocks", () => {
+    const posting = extractJobPosting(fixture("json-ld-graph.html"));
+    expect(posting).toMatchObject({ title: "Product Designer", company: "Globex", location: "Remote", source: 'json-ld' });
+    expect(posting.description).toContain("You will run research");
+  });
+
+  it("falls back to the main content when there is no structured data", () => {
+    const posting = extractJobPosting(fixture("readable-text.html"));
+    expect(posting).toMatchObject({ title: "Data Analyst", company: "Initech", location: "", source: 'readable-text' });
+    expect(posting.description).toContain("- Build weekly dashboards for the sales team");
+    expect(posting.description).toContain("Nice to have: Python, dbt");
+  });
+
+  it("leaves navigation, scripts and footers out of the fallback text", () => {
+    const { description } = extractJobPosting(fixture("readable-text.html"));
+    expect(description).not.toMatch(/About us|Related jobs|All rights reserved|analytics|color: red/);
+  });
+
+  it("uses the page heading and body when nothing else is marked up", () => {
+    const posting = extractJobPosting("<html><head><title>Jobs</title></head><body><h1>Support Lead</h1><p>Lead our support team.</p></body></html>");
+    expect(posting.title).toBe("Support Lead");
+    expect(posting.description).toBe("Support Lead\nLead our support team.");
+  });
+});
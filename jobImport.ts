@@ -0,0 +1,98 @@
+// Turns a job board page into a title, company, location and plain-text description: schema.org
+// JobPosting data when the page has it, otherwise the largest block of readable text.
+
+export interface ExtractedJobPosting {
+  title: string;
+  company: string;
+  location: string;
+  description: string;
+  source: 'json-ld' | 'readable-text';
+}
+
+const htmlToText = (html: string): string => {
+  const doc = new DOMParser().parseFromString(html, "text/html");
+  doc.querySelectorAll("br").forEach(br => br.replaceWith("\n"));
+  doc.querySelectorAll("p, div, li, h1, h2, h3, h4, h5, h6, tr, section").forEach(el => {
+    if (el.tagName === "LI") el.prepend("- ");
+    el.append("\n");
+  });
+  return (doc.body.textContent ?? "")
+    .split("\n")
+    .map(line => line.replace(/\s+/g, " ").trim())
+    .join("\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+};
+
+const findJobPostingNode = (node: any): any => {
+  if (!node || typeof node !== "object") return null;
+  if (Array.isArray(node)) return node.map(findJobPostingNode).find(Boolean) ?? null;
+  const type = node["@type"];
+  if (type === "JobPosting" || (Array.isArray(type) && type.includes("JobPosting"))) return node;
+  return findJobPostingNode(node["@graph"]);
+};
+
+const formatJobLocation = (jobLocation: any): string => {
+  const locations = (Array.isArray(jobLocation) ? jobLocation : [jobLocation]).filter(Boolean);
+  return locations.map(loc => {
+    const address = loc.address ?? loc;
+    if (typeof address === "string") return address;
+    return [address.addressLocality, address.addressRegion, address.addressCountry?.name ?? address.addressCountry]
+      .filter(part => typeof part === "string" && part).join(", ");
+  }).filter(Boolean).join(" / ");
+};
+
+const extractFromJsonLd = (doc: Document): ExtractedJobPosting | null => {
+  for (const script of Array.from(doc.querySelectorAll('script[type="application/ld+json"]'))) {
+    let data: any;
+    try {
+      data = JSON.parse(script.textContent ?? "");
+    } catch {
+      continue;
+    }
+    const posting = findJobPostingNode(data);
+    if (!posting?.description) continue;
+    const remote = posting.jobLocationType === "TELECOMMUTE" ? "Remote" : "";
+    const organization = posting.hiringOrganization;
+    return {
+      title: String(posting.title ?? "").trim(),
+      company: String((typeof organization === "string" ? organization : organization?.name) ?? "").trim(),
+      location: formatJobLocation(posting.jobLocation) || remote,
+      description: htmlToText(String(posting.description)),
+      source: 'json-ld'
+    };
+  }
+  return null;
+};
+
+// Fallback for pages without structured data: keep the largest block of readable content
+const extractReadableText = (doc: Document): ExtractedJobPosting => {
+  doc.querySelectorAll("script, style, noscript, svg, nav, header, footer, aside, form, iframe").forEach(el => el.remove());
+  const candidates = Array.from(doc.querySelectorAll('main, article, [class*="description" i], [id*="description" i]'));
+  const best = candidates.sort((a, b) => (b.textContent?.length ?? 0) - (a.textContent?.length ?? 0))[0] ?? doc.body;
+
+  const meta = (selector: string) => doc.querySelector(selector)?.getAttribute("content")?.trim() ?? "";
+  return {
+    title: meta('meta[property="og:title"]') || doc.querySelector("h1")?.textContent?.trim() || doc.title.trim(),
+    company: meta('meta[property="og:site_name"]'),
+    location: "",
+    description: htmlToText(best.innerHTML),
+    source: 'readable-text'
+  };
+};
+
+export const extractJobPosting = (html: string): ExtractedJobPosting => {
+  const doc = new DOMParser().parseFromString(html, "text/html");
+  return extractFromJsonLd(doc) ?? extractReadableText(doc);
+};
+
+export const fetchJobPosting = async (url: string): Promise<ExtractedJobPosting> => {
+  const response = await fetch(`/api/fetch-job?url=${encodeURIComponent(url)}`);
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    throw new Error(body?.error ?? "Job import is only available when running the app with the dev server. Paste the description instead.");
+  }
+  const posting = extractJobPosting(await response.text());
+  if (posting.description.length < 100) throw new Error("Couldn't find a job description on that page. Paste it instead.");
+  return posting;
+};
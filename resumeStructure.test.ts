@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest";
+import { findPhoneNumber, parseResumeStructure } from "./resumeStructure";
+
+describe("findPhoneNumber", () => {
+  it.each([
+    ["(555) 123-4567"],
+    ["555-123-4567"],
+    ["+44 20 7946 0958"],
+    ["+1 555.123.4567"]
+  ])("finds %s", phone => {
+    expect(findPhoneNumber(`Jane Doe | ${phone} | jane@example.com`)).toBe(phone);
+  });
+
+  it.each([
+    ["2019 - 2021"],
+    ["01/2019 - 03/2021"],
+    ["2015 - 2019 2019 - 2021"],
+    ["Jan 2019 – Dec 2021"]
+  ])("ignores the date range %s", range => {
+    expect(findPhoneNumber(`Software Engineer | Acme | ${range}`)).toBe("");
+  });
+
+  it("ignores short numbers", () => {
+    expect(findPhoneNumber("Employee ID 1234-5678")).toBe("");
+  });
+
+  it("does not join a phone number with a date range on the next line", () => {
+    expect(findPhoneNumber("555-123-4567\n2019 - 2021")).toBe("555-123-4567");
+  });
+});
+
+describe("parseResumeStructure", () => {
+  it("leaves the phone empty instead of taking an employment date range", () => {
+    const resume = parseResumeStructure("Jane Doe\njane@example.com\n\nExperience\nEngineer | Acme | 2019 - 2021\n- Built things");
+    expect(resume.contact.phone).toBe("");
+    expect(resume.contact.name).toBe("Jane Doe");
+    expect(resume.experience[0]).toMatchObject({ startDate: "2019", endDate: "2021" });
+  });
+
+  it("reads the phone from the header", () => {
+    const resume = parseResumeStructure("Jane Doe\n(555) 123-4567 | Seattle, WA\n\nExperience\nEngineer | Acme | 2019 - 2021");
+    expect(resume.contact.phone).toBe("(555) 123-4567");
+    expect(resume.contact.location).toBe("Seattle, WA");
+  });
+});
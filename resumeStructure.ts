@@ -0,0 +1,173 @@
+// Heuristic split of raw resume text into contact details, experience, education and skills.
+// Pure and deterministic, so every later module can rely on the same structure.
+
+export interface ResumeContact {
+  name: string;
+  email: string;
+  phone: string;
+  location: string;
+  links: string[];
+}
+
+export interface ResumeExperienceEntry {
+  title: string;
+  company: string;
+  startDate: string;
+  endDate: string;
+  bullets: string[];
+}
+
+export interface ResumeEducationEntry {
+  institution: string;
+  degree: string;
+  graduationDate: string;
+}
+
+export interface ParsedResume {
+  contact: ResumeContact;
+  summary: string;
+  experience: ResumeExperienceEntry[];
+  education: ResumeEducationEntry[];
+  skills: string[];
+}
+
+export const RESUME_SECTION_HEADINGS: Record<string, keyof Omit<ParsedResume, 'contact'> | 'other'> = {
+  "summary": "summary", "professional summary": "summary", "profile": "summary", "professional profile": "summary",
+  "objective": "summary", "career objective": "summary", "about me": "summary", "about": "summary",
+  "experience": "experience", "work experience": "experience", "professional experience": "experience",
+  "employment": "experience", "employment history": "experience", "work history": "experience", "career history": "experience",
+  "education": "education", "academic background": "education", "education & training": "education", "education and training": "education",
+  "skills": "skills", "technical skills": "skills", "core competencies": "skills", "competencies": "skills",
+  "key skills": "skills", "skills & tools": "skills", "technologies": "skills",
+  "projects": "other", "certifications": "other", "awards": "other", "publications": "other",
+  "volunteer experience": "other", "volunteering": "other", "languages": "other", "interests": "other", "references": "other"
+};
+
+const MONTH_PATTERN = "(?:jan|feb|mar|apr|may|jun|jul|aug|sep|sept|oct|nov|dec)[a-z]*\\.?";
+const DATE_TOKEN = `(?:${MONTH_PATTERN}\\s+\\d{4}|\\d{1,2}\\/\\d{4}|\\d{4})`;
+export const DATE_RANGE_REGEX = new RegExp(`(${DATE_TOKEN})\\s*(?:-|–|—|to)\\s*(${DATE_TOKEN}|present|current|now)`, "i");
+export const BULLET_REGEX = /^[-•*●▪◦‣–]\s*/;
+export const EMAIL_REGEX = /[\w.+-]+@[\w-]+\.[\w.-]+/;
+// Candidates stay on one line; a date range like "2019 - 2021" has the same shape, so findPhoneNumber filters them
+const PHONE_CANDIDATE_REGEX = /\+?\(?\d[\d \t().-]{7,}\d/g;
+const YEAR_RANGE_REGEX = /\b(?:19|20)\d{2}\s*[-–—]\s*(?:19|20)\d{2}\b/;
+const MIN_PHONE_DIGITS = 10;
+const LINK_REGEX = /(?:https?:\/\/|www\.)\S+|(?:linkedin|github)\.com\/\S+/gi;
+const DEGREE_REGEX = /\b(bachelor|master|b\.?s\.?c?|b\.?a|m\.?s\.?c?|m\.?a|mba|ph\.?d|associate|diploma|degree|certificate)\b/i;
+const INSTITUTION_REGEX = /\b(university|college|institute|school|academy|polytechnic)\b/i;
+
+export const findPhoneNumber = (text: string) =>
+  (text.match(PHONE_CANDIDATE_REGEX) ?? [])
+    .map(candidate => candidate.trim())
+    .find(candidate => candidate.replace(/\D/g, "").length >= MIN_PHONE_DIGITS && !YEAR_RANGE_REGEX.test(candidate)) ?? "";
+
+export const detectSectionHeading = (line: string) => {
+  const normalized = line.replace(/[:\s]+$/, "").toLowerCase();
+  if (normalized.length > 40) return null;
+  return RESUME_SECTION_HEADINGS[normalized] ?? null;
+};
+
+const splitRoleHeader = (header: string) => {
+  const parts = header.split(/\s+(?:at|@)\s+|\s*[|,–—]\s*|\s+-\s+/).map(p => p.trim()).filter(Boolean);
+  return { title: parts[0] ?? "", company: parts.slice(1).join(", ") };
+};
+
+const parseExperience = (lines: string[]): ResumeExperienceEntry[] => {
+  const entries: ResumeExperienceEntry[] = [];
+  let current: ResumeExperienceEntry | null = null;
+  let pendingHeader: string[] = [];
+
+  lines.forEach(line => {
+    const isBullet = BULLET_REGEX.test(line);
+    const range = isBullet ? null : line.match(DATE_RANGE_REGEX);
+
+    if (range) {
+      const rest = line.replace(range[0], "").replace(/^[\s|,–—-]+|[\s|,–—-]+$/g, "");
+      const { title, company } = splitRoleHeader([...pendingHeader, rest].filter(Boolean).join(" | "));
+      current = { title, company, startDate: range[1], endDate: range[2], bullets: [] };
+      entries.push(current);
+      pendingHeader = [];
+    } else if (isBullet) {
+      current?.bullets.push(line.replace(BULLET_REGEX, ""));
+    } else if (current && current.bullets.length === 0 && (!current.title || !current.company)) {
+      // Title or company on its own line right under the dated line
+      if (!current.title) current.title = line;
+      else current.company = line;
+    } else if (current && current.bullets.length > 0 && /^[a-z]/.test(line)) {
+      // Wrapped continuation of the previous bullet
+      current.bullets[current.bullets.length - 1] += ` ${line}`;
+    } else {
+      pendingHeader.push(line);
+    }
+  });
+
+  return entries;
+};
+
+const parseEducation = (lines: string[]): ResumeEducationEntry[] => {
+  const entries: ResumeEducationEntry[] = [];
+  let current: ResumeEducationEntry | null = null;
+
+  lines.forEach(raw => {
+    const line = raw.replace(BULLET_REGEX, "");
+    const year = line.match(/\b(19|20)\d{2}\b(?!.*\b(19|20)\d{2}\b)/)?.[0] ?? "";
+    const text = line.replace(DATE_RANGE_REGEX, "").replace(/\b(19|20)\d{2}\b/g, "").replace(/^[\s|,–—-]+|[\s|,–—-]+$/g, "");
+    const isInstitution = INSTITUTION_REGEX.test(text);
+    const isDegree = DEGREE_REGEX.test(text);
+
+    if (!current || (isInstitution && current.institution) || (isDegree && !isInstitution && current.degree)) {
+      current = { institution: "", degree: "", graduationDate: "" };
+      entries.push(current);
+    }
+    if (isInstitution && !current.institution) current.institution = text;
+    else if (!current.degree && text) current.degree = text;
+    if (year) current.graduationDate = year;
+  });
+
+  return entries.filter(e => e.institution || e.degree);
+};
+
+const parseSkills = (lines: string[]): string[] => {
+  const skills = lines
+    .flatMap(line => {
+      const withoutLabel = line.replace(BULLET_REGEX, "").replace(/^[^:]{1,30}:\s*/, "");
+      return withoutLabel.split(/[,;•|·]/);
+    })
+    .map(s => s.trim())
+    .filter(s => s.length > 0 && s.length <= 40);
+  return Array.from(new Map(skills.map(s => [s.toLowerCase(), s])).values());
+};
+
+const parseContact = (headerLines: string[], fullText: string): ResumeContact => {
+  const email = fullText.match(EMAIL_REGEX)?.[0] ?? "";
+  const phone = findPhoneNumber(fullText);
+  const links = Array.from(new Set(fullText.match(LINK_REGEX) ?? []));
+  const name = headerLines.find(l =>
+    !EMAIL_REGEX.test(l) && !findPhoneNumber(l) && !/\d|https?:|www\./.test(l) && l.split(/\s+/).length <= 5
+  ) ?? "";
+  const location = headerLines
+    .flatMap(l => l.split(/\s*[|•·]\s*/))
+    .find(part => /^[A-Z][A-Za-z .'-]+,\s*[A-Z][A-Za-z .]+$/.test(part.trim()) && part.trim() !== name)?.trim() ?? "";
+  return { name, email, phone, location, links };
+};
+
+// Heuristic split of raw resume text into the sections every later module works on
+export const parseResumeStructure = (text: string): ParsedResume => {
+  const lines = text.split(/\r?\n/).map(l => l.trim()).filter(Boolean);
+  const sections: Record<string, string[]> = { header: [], summary: [], experience: [], education: [], skills: [], other: [] };
+  let currentSection = "header";
+
+  lines.forEach(line => {
+    const heading = detectSectionHeading(line);
+    if (heading) currentSection = heading;
+    else sections[currentSection].push(line);
+  });
+
+  return {
+    contact: parseContact(sections.header, text),
+    summary: sections.summary.join(" "),
+    experience: parseExperience(sections.experience),
+    education: parseEducation(sections.education),
+    skills: parseSkills(sections.skills)
+  };
+};
@@ -0,0 +1,30 @@
+import { describe, expect, it } from "vitest";
+import { claimSessionIds } from "./sessionIds";
+
+describe("claimSessionIds", () => {
+  const ids = () => {
+    let next = 0;
+    return () => `new-${++next}`;
+  };
+
+  it("keeps ids that are free or already the importer's", () => {
+    const sessions = [{ id: "a", resumeText: "mine" }, { id: "b", resumeText: "new" }];
+    const owners = new Map([["a", "coach@example.com"]]);
+    expect(claimSessionIds(sessions, "coach@example.com", owners, ids())).toEqual(sessions);
+  });
+
+  it("gives a session another account already owns a new id", () => {
+    const sessions = [{ id: "a", resumeText: "imported" }, { id: "b", resumeText: "also imported" }];
+    const owners = new Map([["a", "jane@example.com"], ["b", "coach@example.com"]]);
+    expect(claimSessionIds(sessions, "coach@example.com", owners, ids())).toEqual([
+      { id: "new-1", resumeText: "imported" },
+      { id: "b", resumeText: "also imported" }
+    ]);
+  });
+
+  it("doesn't change the sessions it was given", () => {
+    const session = { id: "a", resumeText: "imported" };
+    claimSessionIds([session], "coach@example.com", new Map([["a", "jane@example.com"]]), ids());
+    expect(session.id).toBe("a");
+  });
+});
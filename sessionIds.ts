@@ -0,0 +1,12 @@
+// Saved sessions from every local account share one store keyed by session id. An imported
+// session whose id already belongs to someone else gets a fresh id, so importing a file can
+// never replace another account's record.
+export const claimSessionIds = <T extends { id: string }>(
+  sessions: T[],
+  owner: string,
+  ownersById: Map<string, string>,
+  createId: () => string = () => crypto.randomUUID()
+): T[] => sessions.map(session => {
+  const currentOwner = ownersById.get(session.id);
+  return currentOwner === undefined || currentOwner === owner ? session : { ...session, id: createId() };
+});
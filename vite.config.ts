@@ -1,7 +1,136 @@
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import dns from 'dns';
+import http, { type IncomingMessage, type ServerResponse } from 'http';
+import https from 'https';
+import net from 'net';
+import { defineConfig, loadEnv, type Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 
+const MAX_JOB_PAGE_BYTES = 5 * 1024 * 1024;
+const MAX_JOB_REDIRECTS = 5;
+const JOB_FETCH_TIMEOUT_MS = 15000;
+const JOB_FETCH_HEADERS = { 'User-Agent': 'Mozilla/5.0 (compatible; CareerCoach/1.0)', 'Accept': 'text/html,application/xhtml+xml' };
+
+class JobFetchError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = 'JobFetchError';
+  }
+}
+
+// The dev server listens on every interface, so the proxy must only ever reach the public internet:
+// loopback, private, link-local (including the 169.254.169.254 metadata endpoint) and reserved ranges are refused
+const BLOCKED_ADDRESSES = new net.BlockList();
+([
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16], ['172.16.0.0', 12],
+  ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 4], ['240.0.0.0', 4]
+] as const).forEach(([network, prefix]) => BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv4'));
+([['::', 128], ['::1', 128], ['64:ff9b::', 96], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]] as const)
+  .forEach(([network, prefix]) => BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv6'));
+
+// BlockList also applies the IPv4 ranges to IPv4-mapped IPv6 addresses (::ffff:127.0.0.1)
+const isBlockedAddress = (address: string) => BLOCKED_ADDRESSES.check(address, net.isIPv6(address) ? 'ipv6' : 'ipv4');
+
+// Runs as the socket's own DNS lookup, so the address checked is the one connected to
+const publicOnlyLookup: net.LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) return callback(error, '');
+    if (addresses.length === 0 || addresses.some(a => isBlockedAddress(a.address))) {
+      return callback(new JobFetchError('Job postings can only be imported from public websites', 400), '');
+    }
+    if (options.all) callback(null, addresses);
+    else callback(null, addresses[0].address, addresses[0].family);
+  });
+};
+
+const requestPage = (url: URL, signal: AbortSignal) => new Promise<IncomingMessage>((resolve, reject) => {
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') return reject(new JobFetchError('Only http and https URLs are supported', 400));
+  // Address literals never go through the lookup
+  const literal = url.hostname.replace(/^\[|\]$/g, '');
+  if (net.isIP(literal) && isBlockedAddress(literal)) return reject(new JobFetchError('Job postings can only be imported from public websites', 400));
+  const client = url.protocol === 'https:' ? https : http;
+  client.get(url, { headers: JOB_FETCH_HEADERS, lookup: publicOnlyLookup, signal }, resolve).on('error', reject);
+});
+
+// Stops reading as soon as the page passes the size cap instead of buffering all of it first
+const readPage = (response: IncomingMessage) => new Promise<string>((resolve, reject) => {
+  if (Number(response.headers['content-length']) > MAX_JOB_PAGE_BYTES) {
+    response.destroy();
+    return reject(new JobFetchError('The job page is too large to import', 413));
+  }
+  const chunks: Buffer[] = [];
+  let size = 0;
+  response.on('data', (chunk: Buffer) => {
+    size += chunk.length;
+    if (size > MAX_JOB_PAGE_BYTES) {
+      response.destroy();
+      reject(new JobFetchError('The job page is too large to import', 413));
+    } else {
+      chunks.push(chunk);
+    }
+  });
+  response.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+  response.on('error', reject);
+});
+
+// Redirects are followed by hand so every hop goes through the same checks
+const fetchJobPage = async (start: URL) => {
+  const signal = AbortSignal.timeout(JOB_FETCH_TIMEOUT_MS);
+  let url = start;
+  for (let hop = 0; hop <= MAX_JOB_REDIRECTS; hop++) {
+    const response = await requestPage(url, signal);
+    const status = response.statusCode ?? 0;
+    const location = response.headers.location;
+    if (status >= 300 && status < 400 && location) {
+      response.resume();
+      url = new URL(location, url);
+      continue;
+    }
+    if (status < 200 || status >= 300) {
+      response.resume();
+      throw new JobFetchError(`The job site responded with ${status}`, 502);
+    }
+    return readPage(response);
+  }
+  throw new JobFetchError('The job site redirected too many times', 502);
+};
+
+// Job boards don't send CORS headers, so the browser fetches postings through this endpoint
+const handleJobFetch = async (req: IncomingMessage, res: ServerResponse) => {
+  const target = new URL(req.url ?? '', 'http://localhost').searchParams.get('url');
+  const fail = (status: number, message: string) => {
+    res.statusCode = status;
+    res.setHeader('Content-Type', 'application/json');
+    res.end(JSON.stringify({ error: message }));
+  };
+
+  let url: URL;
+  try {
+    url = new URL(target ?? '');
+  } catch {
+    return fail(400, 'A valid job posting URL is required');
+  }
+
+  try {
+    const html = await fetchJobPage(url);
+    res.setHeader('Content-Type', 'text/html; charset=utf-8');
+    res.end(html);
+  } catch (error) {
+    if (error instanceof JobFetchError) return fail(error.status, error.message);
+    fail(502, `Could not fetch the job posting: ${(error as Error).message}`);
+  }
+};
+
+const jobPostingProxy = (): Plugin => ({
+  name: 'job-posting-proxy',
+  configureServer(server) {
+    server.middlewares.use('/api/fetch-job', handleJobFetch);
+  },
+  configurePreviewServer(server) {
+    server.middlewares.use('/api/fetch-job', handleJobFetch);
+  }
+});
+
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
     return {
@@ -9,10 +138,14 @@ export default defineConfig(({ mode }) => {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      plugins: [react(), jobPostingProxy()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.AI_PROVIDER': JSON.stringify(env.AI_PROVIDER),
+        'process.env.OPENAI_BASE_URL': JSON.stringify(env.OPENAI_BASE_URL),
+        'process.env.OPENAI_API_KEY': JSON.stringify(env.OPENAI_API_KEY),
+        'process.env.OPENAI_MODEL': JSON.stringify(env.OPENAI_MODEL)
       },
       resolve: {
         alias: {